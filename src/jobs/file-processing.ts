@@ -0,0 +1,12 @@
+// src/jobs/file-processing.ts
+import { enqueueThumbnail } from "./thumbnail-worker";
+import { enqueueTextExtraction } from "./text-extraction-worker";
+
+/**
+ * Schedule all background processing for a file whose content just changed
+ * (upload, new version, version restore, copy). Returns immediately.
+ */
+export function scheduleFileProcessing(file: { id: string; mime_type?: string | null; type?: string | null }): void {
+  enqueueThumbnail(file.id, file.mime_type || file.type);
+  enqueueTextExtraction(file.id);
+}
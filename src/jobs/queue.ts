@@ -0,0 +1,55 @@
+// src/jobs/queue.ts
+//
+// Minimal in-process job queue keyed by id. A job already waiting is not
+// queued twice; work runs with bounded concurrency off the request path.
+
+export interface JobQueue {
+  // Returns false when the id is already waiting
+  enqueue(id: string): boolean;
+  readonly pending: number;
+}
+
+export function createJobQueue(
+  name: string,
+  concurrency: number,
+  handler: (id: string) => Promise<void>,
+  onError?: (id: string, err: any) => Promise<void> | void
+): JobQueue {
+  const queue: string[] = [];
+  const queued = new Set<string>();
+  let running = 0;
+
+  function drain() {
+    while (running < concurrency && queue.length > 0) {
+      const id = queue.shift() as string;
+      queued.delete(id);
+      running++;
+      handler(id)
+        .catch(async (err) => {
+          console.error(`[${name}] job failed:`, id, err?.message || err);
+          try {
+            await onError?.(id, err);
+          } catch (hookErr) {
+            console.error(`[${name}] error hook failed:`, id, hookErr);
+          }
+        })
+        .finally(() => {
+          running--;
+          drain();
+        });
+    }
+  }
+
+  return {
+    enqueue(id: string) {
+      if (queued.has(id)) return false;
+      queued.add(id);
+      queue.push(id);
+      setImmediate(drain);
+      return true;
+    },
+    get pending() {
+      return queue.length + running;
+    },
+  };
+}
@@ -0,0 +1,55 @@
+// src/jobs/recompute-quotas.ts
+//
+// Rebuilds user_quotas.storage_used / file_count from the `files` and
+// `file_versions` tables. Run it from the admin endpoint or directly:
+//   npm run quota:recompute [-- <userId>]
+import { supabase } from "../lib/supabase";
+import { recomputeQuotaUsage } from "../utils/quota";
+
+const PAGE_SIZE = 500;
+
+export async function recomputeAllQuotas(): Promise<{ processed: number; failed: string[] }> {
+  let processed = 0;
+  const failed: string[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: profiles, error } = await supabase
+      .from("profiles")
+      .select("id")
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    if (!profiles || profiles.length === 0) break;
+
+    for (const profile of profiles) {
+      try {
+        await recomputeQuotaUsage(profile.id);
+        processed++;
+      } catch (err: any) {
+        console.error("[quota] recompute failed for user", profile.id, err?.message || err);
+        failed.push(profile.id);
+      }
+    }
+
+    if (profiles.length < PAGE_SIZE) break;
+  }
+
+  return { processed, failed };
+}
+
+if (require.main === module) {
+  const userId = process.argv[2];
+  const run = userId
+    ? recomputeQuotaUsage(userId).then(() => ({ processed: 1, failed: [] as string[] }))
+    : recomputeAllQuotas();
+
+  run
+    .then((result) => {
+      console.log(`✅ Quota recompute finished (processed: ${result.processed}, failed: ${result.failed.length})`);
+      process.exit(result.failed.length ? 1 : 0);
+    })
+    .catch((err) => {
+      console.error("❌ Quota recompute failed:", err?.message || err);
+      process.exit(1);
+    });
+}
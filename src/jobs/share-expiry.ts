@@ -0,0 +1,78 @@
+// src/jobs/share-expiry.ts
+//
+// Periodic sweep for user shares past their expires_at. Expired shares stop
+// granting access immediately (resolveFileAccess filters them); the sweep
+// only flags them with expired_at and notifies owner and recipient. The rows
+// are kept so the owner can still see them and extend them with PATCH.
+import type { Server } from "socket.io";
+import { supabase } from "../lib/supabase";
+import { getUserIdByEmail } from "../utils/permissions";
+import { emitToUsers, notifyUsers } from "../utils/notifications";
+
+const SWEEP_INTERVAL_MS = Math.max(5_000, Number(process.env.SHARE_EXPIRY_SWEEP_MS || 60_000));
+const BATCH_SIZE = 200;
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+export async function sweepExpiredShares(io?: Server): Promise<number> {
+  let flagged = 0;
+
+  for (;;) {
+    const now = new Date().toISOString();
+    const { data: shares, error } = await supabase
+      .from("shares")
+      .select("id, file_id, owner_id, shared_with_email, permissions, expires_at")
+      .neq("shared_with_email", "") // public links expire on access instead
+      .is("expired_at", null)
+      .lte("expires_at", now)
+      .limit(BATCH_SIZE);
+    if (error) throw error;
+    if (!shares || shares.length === 0) break;
+
+    const { error: updErr } = await supabase
+      .from("shares")
+      .update({ expired_at: now })
+      .in("id", shares.map((s: any) => s.id));
+    if (updErr) throw updErr;
+
+    for (const share of shares as any[]) {
+      const payload = {
+        id: share.id,
+        file_id: share.file_id,
+        shared_with_email: share.shared_with_email,
+        permissions: share.permissions,
+        expires_at: share.expires_at,
+      };
+      const recipientId = await getUserIdByEmail(share.shared_with_email);
+      const userIds = recipientId ? [share.owner_id, recipientId] : [share.owner_id];
+      emitToUsers(io, userIds, "share:expired", payload);
+      await notifyUsers(io, userIds, {
+        type: "share_expired",
+        fileId: share.file_id,
+        data: { share_id: share.id, shared_with_email: share.shared_with_email, expires_at: share.expires_at },
+      });
+    }
+
+    flagged += shares.length;
+    if (shares.length < BATCH_SIZE) break;
+  }
+
+  return flagged;
+}
+
+export function startShareExpirySweep(server: Server): void {
+  if (timer) return;
+  timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await sweepExpiredShares(server);
+    } catch (err: any) {
+      console.error("[share-expiry] sweep failed:", err?.message || err);
+    } finally {
+      running = false;
+    }
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+}
@@ -0,0 +1,144 @@
+// src/jobs/text-extraction-worker.ts
+//
+// Extracts plain text from documents after upload / new version and stores
+// it in files.content_text, which feeds the generated `search_vector`
+// column. Handles plain text, Markdown, PDF and Office formats (OOXML
+// docx/xlsx/pptx and OpenDocument odt/ods/odp).
+import { unzipSync } from "fflate";
+import pdfParse from "pdf-parse";
+import { supabase } from "../lib/supabase";
+import { storage } from "../lib/storage";
+import { createJobQueue } from "./queue";
+import { getFileExt } from "../utils/helpers";
+
+// Postgres caps a tsvector at 1MB; keep the indexed text comfortably below
+const MAX_INDEXED_CHARS = Number(process.env.SEARCH_MAX_INDEXED_CHARS || 500_000);
+const MAX_SOURCE_BYTES = Number(process.env.SEARCH_MAX_SOURCE_BYTES || 50 * 1024 * 1024); // 50MB
+// Office files are zips: cap what their text parts may inflate to, so a small
+// zip bomb can't exhaust memory (sizes come from the archive's directory)
+const MAX_UNZIPPED_PART_BYTES = Number(process.env.SEARCH_MAX_UNZIPPED_PART_BYTES || 20 * 1024 * 1024); // 20MB
+const MAX_UNZIPPED_BYTES = Number(process.env.SEARCH_MAX_UNZIPPED_BYTES || 100 * 1024 * 1024); // 100MB
+const CONCURRENCY = Math.max(1, Number(process.env.TEXT_EXTRACTION_CONCURRENCY || 1));
+
+type Extractor = "text" | "pdf" | "ooxml" | "odf";
+
+const TEXT_EXTENSIONS = new Set(["txt", "md", "markdown", "csv", "tsv", "log", "json", "xml", "html", "htm", "yaml", "yml"]);
+const OOXML_EXTENSIONS = new Set(["docx", "xlsx", "pptx"]);
+const ODF_EXTENSIONS = new Set(["odt", "ods", "odp"]);
+
+// Archive members that hold document text
+const OOXML_PARTS = [/^word\/document\.xml$/, /^word\/(header|footer)\d*\.xml$/, /^ppt\/slides\/slide\d+\.xml$/, /^xl\/sharedStrings\.xml$/];
+const ODF_PARTS = [/^content\.xml$/];
+
+function pickExtractor(mimeType: string | null | undefined, name: string | null | undefined): Extractor | null {
+  const ext = (name ? getFileExt(name) : null)?.toLowerCase() ?? "";
+  const mime = (mimeType || "").toLowerCase();
+
+  if (mime === "application/pdf" || ext === "pdf") return "pdf";
+  if (OOXML_EXTENSIONS.has(ext) || mime.startsWith("application/vnd.openxmlformats-officedocument.")) return "ooxml";
+  if (ODF_EXTENSIONS.has(ext) || mime.startsWith("application/vnd.oasis.opendocument.")) return "odf";
+  if (mime.startsWith("text/") || TEXT_EXTENSIONS.has(ext)) return "text";
+  return null;
+}
+
+export function supportsTextExtraction(mimeType?: string | null, name?: string | null): boolean {
+  return pickExtractor(mimeType, name) !== null;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_m, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_m, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+// Text of zipped XML documents: block-level closing tags become line breaks,
+// inline markup is dropped so split runs ("Hel" + "lo") stay one word.
+// Parts over the size caps are skipped rather than inflated.
+function extractZippedXml(buffer: Buffer, parts: RegExp[]): string {
+  let budget = MAX_UNZIPPED_BYTES;
+  const files = unzipSync(new Uint8Array(buffer), {
+    filter: (file) => {
+      if (!parts.some((re) => re.test(file.name))) return false;
+      if (file.originalSize > MAX_UNZIPPED_PART_BYTES || file.originalSize > budget) return false;
+      budget -= file.originalSize;
+      return true;
+    },
+  });
+
+  return Object.keys(files)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .map((name) =>
+      decodeXmlEntities(
+        Buffer.from(files[name])
+          .toString("utf8")
+          .replace(/<(w:tab|text:tab|text:s)\b[^>]*\/>/g, " ")
+          .replace(/<\/(w:p|a:p|si|text:p|text:h|table:table-cell)>/g, "\n")
+          .replace(/<[^>]+>/g, "")
+      )
+    )
+    .join("\n");
+}
+
+async function readAll(key: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await storage.getStream(key)) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+export async function extractText(buffer: Buffer, extractor: Extractor): Promise<string> {
+  switch (extractor) {
+    case "text":
+      return buffer.toString("utf8");
+    case "pdf":
+      return (await pdfParse(buffer)).text;
+    case "ooxml":
+      return extractZippedXml(buffer, OOXML_PARTS);
+    case "odf":
+      return extractZippedXml(buffer, ODF_PARTS);
+  }
+}
+
+async function index(fileId: string) {
+  const { data: file, error } = await supabase
+    .from("files")
+    .select("id, name, path, size, mime_type, type, is_folder")
+    .eq("id", fileId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!file || file.is_folder || !file.path) return;
+
+  const extractor = pickExtractor(file.mime_type || file.type, file.name);
+  let content: string | null = null;
+
+  if (extractor && Number(file.size ?? 0) <= MAX_SOURCE_BYTES) {
+    const raw = await extractText(await readAll(file.path), extractor);
+    content = raw
+      .replace(/\u0000/g, "")
+      .replace(/[ \t\f\v]+/g, " ")
+      .replace(/\s*\n\s*/g, "\n")
+      .trim()
+      .slice(0, MAX_INDEXED_CHARS);
+  }
+
+  const { error: updErr } = await supabase
+    .from("files")
+    .update({ content_text: content, content_indexed_at: new Date().toISOString() })
+    .eq("id", fileId);
+  if (updErr) throw updErr;
+}
+
+const jobs = createJobQueue("text-extraction", CONCURRENCY, index);
+
+/**
+ * Queue content indexing for a file. Formats without an extractor get their
+ * content cleared (a new version may have changed the type); the file stays
+ * searchable by name.
+ */
+export function enqueueTextExtraction(fileId: string): void {
+  jobs.enqueue(fileId);
+}
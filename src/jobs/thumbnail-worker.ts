@@ -0,0 +1,147 @@
+// src/jobs/thumbnail-worker.ts
+//
+// Background thumbnail / preview generation. Uploads only enqueue a job, so
+// request latency is unaffected. Images are resized with sharp; the first
+// page of a PDF is rendered with poppler's `pdftoppm` when it is installed.
+// The queue is in-process: jobs still pending at shutdown are picked up
+// again on the next start from files.thumbnail_status = 'pending'.
+import { execFile } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import sharp from "sharp";
+import type { Server } from "socket.io";
+import { supabase } from "../lib/supabase";
+import { storage } from "../lib/storage";
+import { createJobQueue } from "./queue";
+
+const execFileAsync = promisify(execFile);
+
+export const THUMBNAIL_SIZES = { small: 128, medium: 512, large: 1024 } as const;
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+
+const IMAGE_TYPES = new Set([
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/avif",
+  "image/tiff",
+  "image/svg+xml",
+  "image/heic",
+  "image/heif",
+]);
+const PDF_TYPE = "application/pdf";
+const PDFTOPPM_PATH = process.env.PDFTOPPM_PATH || "pdftoppm";
+const MAX_SOURCE_BYTES = Number(process.env.THUMBNAIL_MAX_SOURCE_BYTES || 200 * 1024 * 1024); // 200MB
+const CONCURRENCY = Math.max(1, Number(process.env.THUMBNAIL_CONCURRENCY || 1));
+
+let io: Server | undefined;
+
+export function thumbnailPath(ownerId: string, fileId: string, size: ThumbnailSize): string {
+  return `${ownerId}/thumbnails/${fileId}/${size}.webp`;
+}
+
+export function thumbnailPaths(ownerId: string, fileId: string): string[] {
+  return (Object.keys(THUMBNAIL_SIZES) as ThumbnailSize[]).map((size) => thumbnailPath(ownerId, fileId, size));
+}
+
+export function supportsThumbnail(mimeType?: string | null): boolean {
+  return !!mimeType && (IMAGE_TYPES.has(mimeType) || mimeType === PDF_TYPE);
+}
+
+async function setStatus(fileId: string, status: "pending" | "ready" | "failed" | "unsupported") {
+  const { error } = await supabase
+    .from("files")
+    .update({ thumbnail_status: status, thumbnail_updated_at: new Date().toISOString() })
+    .eq("id", fileId);
+  if (error) console.error("[thumbnails] status update failed:", fileId, error.message);
+}
+
+async function readAll(key: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await storage.getStream(key)) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+// Render page 1 of a PDF to PNG via poppler
+async function renderPdfFirstPage(pdf: Buffer): Promise<Buffer> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "clouddrive-pdf-"));
+  try {
+    const input = path.join(dir, "source.pdf");
+    const outputBase = path.join(dir, "page");
+    await fs.promises.writeFile(input, pdf);
+    await execFileAsync(
+      PDFTOPPM_PATH,
+      ["-png", "-f", "1", "-l", "1", "-singlefile", "-scale-to", String(THUMBNAIL_SIZES.large), input, outputBase],
+      { timeout: 60_000 }
+    );
+    return await fs.promises.readFile(`${outputBase}.png`);
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function generate(fileId: string) {
+  const { data: file, error } = await supabase
+    .from("files")
+    .select("id, user_id, path, size, mime_type, type, is_folder, is_deleted")
+    .eq("id", fileId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!file || file.is_folder || !file.path) return;
+
+  const mimeType = file.mime_type || file.type;
+  if (!supportsThumbnail(mimeType) || Number(file.size ?? 0) > MAX_SOURCE_BYTES) {
+    await setStatus(fileId, "unsupported");
+    return;
+  }
+
+  let source = await readAll(file.path);
+  if (mimeType === PDF_TYPE) source = await renderPdfFirstPage(source);
+
+  for (const [size, px] of Object.entries(THUMBNAIL_SIZES) as [ThumbnailSize, number][]) {
+    const thumb = await sharp(source, { animated: false })
+      .rotate() // honour EXIF orientation
+      .resize(px, px, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+    await storage.put(thumbnailPath(file.user_id, fileId, size), thumb, { contentType: "image/webp", upsert: true });
+  }
+
+  await setStatus(fileId, "ready");
+
+  io?.to(`user:${file.user_id}`).emit("file:thumbnail_ready", {
+    id: fileId,
+    sizes: Object.keys(THUMBNAIL_SIZES),
+  });
+}
+
+const jobs = createJobQueue("thumbnails", CONCURRENCY, generate, (fileId) => setStatus(fileId, "failed"));
+
+/**
+ * Queue thumbnail generation for a file. Never throws and never waits for
+ * the work itself; types without a thumbnail renderer are ignored.
+ */
+export function enqueueThumbnail(fileId: string, mimeType?: string | null): void {
+  if (!supportsThumbnail(mimeType)) return;
+  // Mark pending first so a fast job can never be overwritten by it
+  setStatus(fileId, "pending").then(() => jobs.enqueue(fileId));
+}
+
+export async function startThumbnailWorker(server: Server): Promise<void> {
+  io = server;
+
+  // Resume jobs interrupted by a restart
+  const { data: pending, error } = await supabase
+    .from("files")
+    .select("id")
+    .eq("thumbnail_status", "pending")
+    .limit(500);
+  if (error) {
+    console.error("[thumbnails] could not load pending jobs:", error.message);
+    return;
+  }
+  for (const row of pending ?? []) jobs.enqueue(row.id);
+}
@@ -0,0 +1,37 @@
+// src/lib/mailer/dev-transports.ts
+//
+// Development transports: nothing leaves the machine. `console` prints each
+// message, `file` writes it as an .eml file so links can be opened locally.
+import fs from "fs";
+import path from "path";
+import type { MailMessage, MailTransport } from "./types";
+
+export class ConsoleMailTransport implements MailTransport {
+  readonly transport = "console";
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 [mail] to=${message.to} subject="${message.subject}"\n${message.text}`);
+  }
+}
+
+export class FileMailTransport implements MailTransport {
+  readonly transport = "file";
+
+  constructor(private readonly dir: string, private readonly from: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${Math.random().toString(36).slice(2, 8)}.eml`;
+    const body = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      message.text,
+    ].join("\r\n");
+    await fs.promises.writeFile(path.join(this.dir, name), body, "utf8");
+  }
+}
@@ -0,0 +1,39 @@
+// src/lib/mailer/index.ts
+import path from "path";
+import dotenv from "dotenv";
+import { ConsoleMailTransport, FileMailTransport } from "./dev-transports";
+import { SmtpMailTransport } from "./smtp-transport";
+import type { MailTransport } from "./types";
+
+dotenv.config();
+
+export * from "./types";
+
+// MAIL_TRANSPORT: console (default) | file | smtp
+function createMailer(): MailTransport {
+  const transport = (process.env.MAIL_TRANSPORT || "console").toLowerCase();
+  const from = process.env.MAIL_FROM || "CloudDrive <no-reply@clouddrive.local>";
+
+  switch (transport) {
+    case "console":
+      return new ConsoleMailTransport();
+    case "file":
+      return new FileMailTransport(path.resolve(process.env.MAIL_FILE_DIR || "mail"), from);
+    case "smtp":
+      return new SmtpMailTransport(
+        {
+          host: process.env.SMTP_HOST || "localhost",
+          port: Number(process.env.SMTP_PORT || 587),
+          secure: String(process.env.SMTP_SECURE || "false").toLowerCase() === "true",
+          user: process.env.SMTP_USER || undefined,
+          pass: process.env.SMTP_PASS || undefined,
+        },
+        from
+      );
+    default:
+      throw new Error(`❌ Unknown MAIL_TRANSPORT "${transport}" (expected console, file or smtp)`);
+  }
+}
+
+// Shared mailer instance
+export const mailer: MailTransport = createMailer();
@@ -0,0 +1,21 @@
+// src/lib/mailer/smtp-transport.ts
+import nodemailer, { Transporter } from "nodemailer";
+import type { MailMessage, MailTransport } from "./types";
+
+export class SmtpMailTransport implements MailTransport {
+  readonly transport = "smtp";
+  private readonly client: Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }, private readonly from: string) {
+    this.client = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.client.sendMail({ from: this.from, ...message });
+  }
+}
@@ -0,0 +1,17 @@
+// src/lib/mailer/types.ts
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Outgoing email transport. `send` throws on failure; callers that must not
+ * fail because of email (invites, notifications) catch and log.
+ */
+export interface MailTransport {
+  readonly transport: string;
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,35 @@
+// src/lib/rate-limit/index.ts
+import Redis from "ioredis";
+import dotenv from "dotenv";
+import { MemoryRateLimitStore } from "./memory-store";
+import { RedisRateLimitStore } from "./redis-store";
+import type { RateLimitStore } from "./types";
+
+dotenv.config();
+
+export * from "./types";
+export { MemoryRateLimitStore, RedisRateLimitStore };
+
+// RATE_LIMIT_STORE: memory (default, single instance) | redis (shared by a cluster)
+function createRateLimitStore(): RateLimitStore {
+  const store = (process.env.RATE_LIMIT_STORE || "memory").toLowerCase();
+
+  switch (store) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "redis": {
+      const client = new Redis(process.env.REDIS_URL || "redis://localhost:6379", {
+        // Fail fast instead of queueing requests while Redis is unreachable
+        enableOfflineQueue: false,
+        maxRetriesPerRequest: 1,
+      });
+      client.on("error", (err) => console.error("Rate limit Redis error:", err.message));
+      return new RedisRateLimitStore(client, process.env.RATE_LIMIT_PREFIX || "ratelimit:");
+    }
+    default:
+      throw new Error(`❌ Unknown RATE_LIMIT_STORE "${store}" (expected memory or redis)`);
+  }
+}
+
+// Shared store instance
+export const rateLimitStore: RateLimitStore = createRateLimitStore();
@@ -0,0 +1,43 @@
+// src/lib/rate-limit/memory-store.ts
+import type { RateLimitCounter, RateLimitStore } from "./types";
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+// Counters in process memory. Correct for a single instance only: every
+// instance behind a load balancer would count separately.
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly store = "memory";
+  private counters = new Map<string, RateLimitCounter>();
+
+  constructor() {
+    // Drop finished windows so one-off keys (IPs, emails) do not pile up
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, counter] of this.counters) {
+        if (counter.resetAt <= now) this.counters.delete(key);
+      }
+    }, SWEEP_INTERVAL_MS).unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const counter = this.counters.get(key);
+    if (!counter || counter.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs };
+      this.counters.set(key, fresh);
+      return { ...fresh };
+    }
+    counter.count += 1;
+    return { ...counter };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const counter = this.counters.get(key);
+    if (!counter || counter.resetAt <= Date.now()) return null;
+    return { ...counter };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+}
@@ -0,0 +1,33 @@
+// src/lib/rate-limit/redis-store.ts
+import type Redis from "ioredis";
+import type { RateLimitCounter, RateLimitStore } from "./types";
+
+// INCR and start the window in one round trip; the TTL is only set by the
+// first hit, so the window does not slide
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then redis.call('PEXPIRE', KEYS[1], ARGV[1]) end
+return {count, redis.call('PTTL', KEYS[1])}
+`;
+
+// Counters in Redis, shared by every instance of the API
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly store = "redis";
+
+  constructor(private client: Redis, private prefix = "ratelimit:") {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const [count, ttl] = (await this.client.eval(INCREMENT_SCRIPT, 1, this.prefix + key, windowMs)) as [number, number];
+    return { count, resetAt: Date.now() + (ttl > 0 ? ttl : windowMs) };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const [count, ttl] = await Promise.all([this.client.get(this.prefix + key), this.client.pttl(this.prefix + key)]);
+    if (count === null || ttl <= 0) return null;
+    return { count: Number(count), resetAt: Date.now() + ttl };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
@@ -0,0 +1,18 @@
+// src/lib/rate-limit/types.ts
+
+export interface RateLimitCounter {
+  count: number;
+  resetAt: number; // epoch ms when the window ends
+}
+
+/**
+ * Fixed-window counters shared by every rate limit. `increment` starts a new
+ * window of `windowMs` when the key has none; keys disappear when their
+ * window ends.
+ */
+export interface RateLimitStore {
+  readonly store: string;
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  get(key: string): Promise<RateLimitCounter | null>;
+  reset(key: string): Promise<void>;
+}
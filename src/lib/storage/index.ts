@@ -0,0 +1,47 @@
+// src/lib/storage/index.ts
+import path from "path";
+import { S3Client } from "@aws-sdk/client-s3";
+import dotenv from "dotenv";
+import { LocalStorageProvider } from "./local-driver";
+import { S3StorageProvider } from "./s3-driver";
+import { SupabaseStorageProvider } from "./supabase-driver";
+import type { StorageProvider } from "./types";
+
+dotenv.config();
+
+export * from "./types";
+export { LocalStorageProvider, S3StorageProvider, SupabaseStorageProvider };
+
+// STORAGE_DRIVER: supabase (default) | local | s3
+function createStorage(): StorageProvider {
+  const driver = (process.env.STORAGE_DRIVER || "supabase").toLowerCase();
+  const bucket = process.env.STORAGE_BUCKET || "files";
+
+  switch (driver) {
+    case "supabase":
+      return new SupabaseStorageProvider(bucket);
+    case "local":
+      return new LocalStorageProvider(
+        path.resolve(process.env.LOCAL_STORAGE_DIR || "uploads", bucket),
+        process.env.BACKEND_URL || `http://localhost:${process.env.PORT || 3001}`,
+        process.env.LOCAL_STORAGE_SECRET || process.env.JWT_SECRET || "your-secret-key"
+      );
+    case "s3": {
+      const client = new S3Client({
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        forcePathStyle: String(process.env.S3_FORCE_PATH_STYLE || "false").toLowerCase() === "true",
+        credentials:
+          process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+            ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+            : undefined,
+      });
+      return new S3StorageProvider(client, process.env.S3_BUCKET || bucket);
+    }
+    default:
+      throw new Error(`❌ Unknown STORAGE_DRIVER "${driver}" (expected supabase, local or s3)`);
+  }
+}
+
+// Shared storage instance for all routes
+export const storage: StorageProvider = createStorage();
@@ -0,0 +1,114 @@
+// src/lib/storage/local-driver.ts
+//
+// Filesystem driver for offline development and CI. Objects live under
+// `rootDir`; content type is kept in a `<object>.meta.json` sidecar. Signed
+// URLs point at /api/storage/local (src/routes/storage-routes.ts) and carry
+// an HMAC over path + expiry.
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { PutOptions, SignedUrlOptions, StorageBody, StorageObjectInfo, StorageProvider } from "./types";
+
+const META_SUFFIX = ".meta.json";
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly driver = "local";
+
+  constructor(
+    private readonly rootDir: string,
+    private readonly publicBaseUrl: string,
+    private readonly secret: string
+  ) {
+    fs.mkdirSync(rootDir, { recursive: true });
+  }
+
+  // Map a bucket key to an absolute path, refusing anything outside rootDir
+  resolve(key: string): string {
+    const full = path.resolve(this.rootDir, key);
+    if (!full.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage path: ${key}`);
+    }
+    return full;
+  }
+
+  async put(key: string, body: StorageBody, options: PutOptions = {}) {
+    const full = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(full), { recursive: true });
+
+    if (!options.upsert && fs.existsSync(full)) {
+      throw new Error(`Object already exists: ${key}`);
+    }
+
+    if (Buffer.isBuffer(body)) {
+      await fs.promises.writeFile(full, body);
+    } else {
+      await pipeline(body, fs.createWriteStream(full));
+    }
+    await fs.promises.writeFile(full + META_SUFFIX, JSON.stringify({ contentType: options.contentType ?? null }));
+
+    return { path: key };
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const full = this.resolve(key);
+    await fs.promises.access(full);
+    return fs.createReadStream(full);
+  }
+
+  async delete(keys: string[]) {
+    for (const key of keys) {
+      const full = this.resolve(key);
+      await fs.promises.rm(full, { force: true });
+      await fs.promises.rm(full + META_SUFFIX, { force: true });
+    }
+  }
+
+  sign(key: string, expires: number, download: string): string {
+    return crypto.createHmac("sha256", this.secret).update(`${key}\n${expires}\n${download}`).digest("hex");
+  }
+
+  verify(key: string, expires: number, download: string, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+    const expected = Buffer.from(this.sign(key, expires, download));
+    const given = Buffer.from(signature || "");
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  async getSignedUrl(key: string, expiresIn: number, options: SignedUrlOptions = {}) {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const download = options.download ?? "";
+    const params = new URLSearchParams({ expires: String(expires), signature: this.sign(key, expires, download) });
+    if (download) params.set("download", download);
+    const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+    return `${this.publicBaseUrl}/api/storage/local/${encodedKey}?${params.toString()}`;
+  }
+
+  async copy(fromKey: string, toKey: string) {
+    const from = this.resolve(fromKey);
+    const to = this.resolve(toKey);
+    await fs.promises.mkdir(path.dirname(to), { recursive: true });
+    await fs.promises.copyFile(from, to, fs.constants.COPYFILE_EXCL);
+    if (fs.existsSync(from + META_SUFFIX)) {
+      await fs.promises.copyFile(from + META_SUFFIX, to + META_SUFFIX);
+    }
+  }
+
+  async head(key: string): Promise<StorageObjectInfo | null> {
+    const full = this.resolve(key);
+    try {
+      const stat = await fs.promises.stat(full);
+      let contentType: string | undefined;
+      try {
+        contentType = JSON.parse(await fs.promises.readFile(full + META_SUFFIX, "utf8")).contentType ?? undefined;
+      } catch {
+        // No sidecar: unknown content type
+      }
+      return { size: stat.size, contentType, lastModified: stat.mtime };
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return null;
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+// src/lib/storage/s3-driver.ts
+//
+// S3-compatible driver (AWS S3, MinIO, Cloudflare R2, ...). Set
+// S3_ENDPOINT and S3_FORCE_PATH_STYLE=true for MinIO.
+import {
+  CopyObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { Readable } from "stream";
+import type { PutOptions, SignedUrlOptions, StorageBody, StorageObjectInfo, StorageProvider } from "./types";
+
+export class S3StorageProvider implements StorageProvider {
+  readonly driver = "s3";
+
+  constructor(private readonly client: S3Client, private readonly bucket: string) {}
+
+  async put(key: string, body: StorageBody, options: PutOptions = {}) {
+    if (!options.upsert && (await this.head(key))) {
+      throw new Error(`Object already exists: ${key}`);
+    }
+
+    if (Buffer.isBuffer(body)) {
+      await this.client.send(
+        new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: body, ContentType: options.contentType })
+      );
+    } else {
+      // Multipart upload so streams of unknown length are never buffered whole
+      await new Upload({
+        client: this.client,
+        params: { Bucket: this.bucket, Key: key, Body: body, ContentType: options.contentType },
+      }).done();
+    }
+
+    return { path: key };
+  }
+
+  async getStream(key: string) {
+    const { Body } = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!Body) throw new Error(`Empty body for object: ${key}`);
+    return Body as Readable;
+  }
+
+  async delete(keys: string[]) {
+    // DeleteObjects accepts at most 1000 keys per call
+    for (let i = 0; i < keys.length; i += 1000) {
+      await this.client.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: { Objects: keys.slice(i, i + 1000).map((Key) => ({ Key })), Quiet: true },
+        })
+      );
+    }
+  }
+
+  async getSignedUrl(key: string, expiresIn: number, options: SignedUrlOptions = {}) {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ResponseContentDisposition: options.download
+        ? `attachment; filename="${encodeURIComponent(options.download)}"`
+        : undefined,
+    });
+    return getSignedUrl(this.client, command, { expiresIn });
+  }
+
+  async copy(fromKey: string, toKey: string) {
+    await this.client.send(
+      new CopyObjectCommand({
+        Bucket: this.bucket,
+        Key: toKey,
+        CopySource: `${this.bucket}/${fromKey.split("/").map(encodeURIComponent).join("/")}`,
+      })
+    );
+  }
+
+  async head(key: string): Promise<StorageObjectInfo | null> {
+    try {
+      const out = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return { size: Number(out.ContentLength ?? 0), contentType: out.ContentType, lastModified: out.LastModified };
+    } catch (err: any) {
+      if (err?.name === "NotFound" || err?.$metadata?.httpStatusCode === 404) return null;
+      throw err;
+    }
+  }
+}
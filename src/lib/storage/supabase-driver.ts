@@ -0,0 +1,66 @@
+// src/lib/storage/supabase-driver.ts
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { supabase } from "../supabase";
+import type { PutOptions, SignedUrlOptions, StorageBody, StorageObjectInfo, StorageProvider } from "./types";
+
+export class SupabaseStorageProvider implements StorageProvider {
+  readonly driver = "supabase";
+
+  constructor(private readonly bucket: string) {}
+
+  private get api() {
+    return supabase.storage.from(this.bucket);
+  }
+
+  async put(path: string, body: StorageBody, options: PutOptions = {}) {
+    const { data, error } = await this.api.upload(path, body, {
+      contentType: options.contentType,
+      upsert: options.upsert ?? false,
+      // Required by fetch when the body is a stream
+      ...(Buffer.isBuffer(body) ? {} : { duplex: "half" }),
+    });
+    if (error) throw error;
+    return { path: data?.path ?? path };
+  }
+
+  async getStream(path: string) {
+    const { data, error } = await this.api.download(path);
+    if (error) throw error;
+    return Readable.fromWeb(data.stream() as unknown as WebReadableStream);
+  }
+
+  async delete(paths: string[]) {
+    if (paths.length === 0) return;
+    const { error } = await this.api.remove(paths);
+    if (error) throw error;
+  }
+
+  async getSignedUrl(path: string, expiresIn: number, options: SignedUrlOptions = {}) {
+    const { data, error } = await this.api.createSignedUrl(
+      path,
+      expiresIn,
+      options.download ? { download: options.download } : undefined
+    );
+    if (error) throw error;
+    return data.signedUrl;
+  }
+
+  async copy(fromPath: string, toPath: string) {
+    const { error } = await this.api.copy(fromPath, toPath);
+    if (error) throw error;
+  }
+
+  async head(path: string): Promise<StorageObjectInfo | null> {
+    const { data, error } = await this.api.info(path);
+    if (error) {
+      if ((error as any)?.statusCode === "404" || (error as any)?.status === 404) return null;
+      throw error;
+    }
+    return {
+      size: Number(data.size ?? data.metadata?.size ?? 0),
+      contentType: data.contentType ?? data.metadata?.mimetype,
+      lastModified: data.lastModified ? new Date(data.lastModified) : undefined,
+    };
+  }
+}
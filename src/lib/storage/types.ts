@@ -0,0 +1,38 @@
+// src/lib/storage/types.ts
+import type { Readable } from "stream";
+
+export type StorageBody = Buffer | Readable;
+
+export interface PutOptions {
+  contentType?: string;
+  upsert?: boolean;
+  // Known byte length of a streamed body (lets drivers skip buffering)
+  size?: number;
+}
+
+export interface SignedUrlOptions {
+  // Ask the browser to save the object under this file name
+  download?: string;
+}
+
+export interface StorageObjectInfo {
+  size: number;
+  contentType?: string;
+  lastModified?: Date;
+}
+
+/**
+ * Object storage used for file blobs, versions and derived assets.
+ * Paths are bucket-relative keys such as `<userId>/<name>`.
+ * Every method throws on failure.
+ */
+export interface StorageProvider {
+  readonly driver: string;
+  put(path: string, body: StorageBody, options?: PutOptions): Promise<{ path: string }>;
+  getStream(path: string): Promise<Readable>;
+  delete(paths: string[]): Promise<void>;
+  getSignedUrl(path: string, expiresIn: number, options?: SignedUrlOptions): Promise<string>;
+  copy(fromPath: string, toPath: string): Promise<void>;
+  // Returns null when the object does not exist
+  head(path: string): Promise<StorageObjectInfo | null>;
+}
@@ -0,0 +1,25 @@
+import type { Request, Response, NextFunction } from "express";
+
+// Comma separated list of operator emails allowed to call /api/admin
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || "")
+  .split(",")
+  .map((e) => e.trim().toLowerCase())
+  .filter(Boolean);
+
+// ==============================
+// Admin Middleware (mount after authMiddleware)
+// ==============================
+export const adminMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const email = String(req.user?.email || "").toLowerCase();
+
+  if (!email || !ADMIN_EMAILS.includes(email)) {
+    res.status(403).json({ error: "Admin access required" });
+    return;
+  }
+
+  next();
+};
@@ -1,6 +1,8 @@
 import type { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
 import { supabase } from "../lib/supabase";
+import { isSessionActive, verifyAccessToken } from "../utils/sessions";
+import { TokenScope, authenticatePersonalAccessToken, isPersonalAccessToken } from "../utils/personal-tokens";
+import { clientIp } from "./rate-limit-middleware";
 
 // ==============================
 // Extend Express Request
@@ -8,23 +10,19 @@ import { supabase } from "../lib/supabase";
 declare module "express-serve-static-core" {
   interface Request {
     userId?: string;
+    sessionId?: string; // set for signed-in sessions (JWT)
+    tokenScopes?: TokenScope[]; // set for personal access tokens
+    personalTokenId?: string;
     user?: any;
   }
 }
 
-// ==============================
-// JWT Payload Type
-// ==============================
-interface JwtPayload {
-  userId: string;
-  email: string;
-  iat?: number;
-  exp?: number;
-}
-
 // ==============================
 // Auth Middleware
 // ==============================
+// Accepts a session access token (JWT) or a personal access token
+// (`cdp_...`). Token requests are limited to their scopes by requireScope
+// (src/middlewares/scope-middleware.ts).
 export const authMiddleware = async (
   req: Request,
   res: Response,
@@ -40,29 +38,38 @@ export const authMiddleware = async (
 
     const token = authHeader.substring(7);
 
-    // Verify JWT
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(
-        token,
-        process.env.JWT_SECRET || "your-secret-key"
-      ) as JwtPayload;
-    } catch (err) {
-      console.error("❌ JWT verification failed:", err);
-      res.status(401).json({ error: "Invalid or expired token" });
-      return;
-    }
+    let userId: string;
+    if (isPersonalAccessToken(token)) {
+      const pat = await authenticatePersonalAccessToken(token, clientIp(req));
+      if (!pat) {
+        res.status(401).json({ error: "Invalid or expired token" });
+        return;
+      }
+      userId = pat.userId;
+      req.tokenScopes = pat.scopes;
+      req.personalTokenId = pat.id;
+    } else {
+      // Verify JWT
+      const decoded = verifyAccessToken(token);
+      if (!decoded) {
+        res.status(401).json({ error: "Invalid or expired token" });
+        return;
+      }
 
-    if (!decoded.userId) {
-      res.status(401).json({ error: "Invalid token payload" });
-      return;
+      // Signed-out sessions stop working before their access tokens expire
+      if (!(await isSessionActive(decoded.sid, decoded.userId))) {
+        res.status(401).json({ error: "Session has been signed out", code: "SESSION_REVOKED" });
+        return;
+      }
+      userId = decoded.userId;
+      req.sessionId = decoded.sid;
     }
 
     // Check if user still exists
     const { data: user, error } = await supabase
       .from("profiles")
       .select("*")
-      .eq("id", decoded.userId)
+      .eq("id", userId)
       .single();
 
     if (error || !user) {
@@ -75,7 +82,7 @@ export const authMiddleware = async (
     }
 
     // Attach user to request
-    req.userId = decoded.userId;
+    req.userId = userId;
     req.user = user;
 
     next();
@@ -84,3 +91,16 @@ export const authMiddleware = async (
     res.status(401).json({ error: "Unauthorized" });
   }
 };
+
+// ==============================
+// Verified Email (mount after authMiddleware)
+// ==============================
+// Shares are addressed to emails, so accounts whose address is unproven may
+// not hand out access until they verify it.
+export const requireVerifiedEmail = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user?.email_verified_at) {
+    res.status(403).json({ error: "Verify your email address before sharing", code: "EMAIL_NOT_VERIFIED" });
+    return;
+  }
+  next();
+};
@@ -0,0 +1,57 @@
+import type { Request, Response, NextFunction } from "express";
+import { FileAccess, FileAction, authorizeFile } from "../utils/policy";
+import { isLiveFolder } from "../utils/tree";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    fileAccess?: FileAccess;
+  }
+}
+
+interface FileAccessSource {
+  param?: string; // route parameter holding the file id (default "id")
+  body?: string; // or a body field, e.g. "parentId"
+  optional?: boolean; // let requests without an id through (e.g. root uploads)
+  folder?: boolean; // the id must name a folder that is not in the trash
+  notFound?: string;
+}
+
+// ==============================
+// File access guard (mount after authMiddleware and any body parser)
+// ==============================
+// Resolves the caller's role on the file named by the request and checks the
+// action against FILE_POLICY. Callers with no access at all get a 404 so the
+// file's existence is not revealed; callers whose role is too narrow get a
+// 403. On success the resolved access is available as req.fileAccess.
+export const requireFileAccess = (
+  action: FileAction | ((req: Request) => FileAction),
+  source: FileAccessSource = {}
+) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const raw = source.body ? req.body?.[source.body] : req.params[source.param ?? "id"];
+      if (!raw) {
+        if (source.optional) return next();
+        res.status(400).json({ error: "File id is required" });
+        return;
+      }
+
+      const access = await authorizeFile(req.userId as string, String(raw), typeof action === "function" ? action(req) : action);
+      if (!access.allowed) {
+        if (access.role) res.status(403).json({ error: "Insufficient permissions" });
+        else res.status(404).json({ error: source.notFound ?? "File not found" });
+        return;
+      }
+      if (source.folder && !(await isLiveFolder(access.fileId))) {
+        res.status(404).json({ error: source.notFound ?? "File not found" });
+        return;
+      }
+
+      req.fileAccess = access;
+      next();
+    } catch (error) {
+      console.error("File access check error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  };
+};
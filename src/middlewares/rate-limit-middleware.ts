@@ -0,0 +1,92 @@
+import type { Request, Response, NextFunction } from "express";
+import { rateLimitStore } from "../lib/rate-limit";
+
+export interface RateLimitRule {
+  windowMs: number;
+  ipMax: number; // requests per window from one IP
+  accountMax?: number; // requests per window for one account (email, user id, link token)
+}
+
+export type RateLimitGroup = "auth" | "login" | "refresh" | "password-reset" | "public" | "public-unlock";
+
+const MINUTE = 60 * 1000;
+
+// Defaults per route group. Override any of them with RATE_LIMITS, e.g.
+// RATE_LIMITS='{"login":{"ipMax":50},"public":{"windowMs":60000,"ipMax":120}}'
+const DEFAULT_RULES: Record<RateLimitGroup, RateLimitRule> = {
+  auth: { windowMs: 15 * MINUTE, ipMax: 30, accountMax: 10 }, // register, verification, password and 2FA changes
+  login: { windowMs: 15 * MINUTE, ipMax: 100, accountMax: 30 }, // login and its 2FA step
+  // Every signed-in client refreshes about once per access token lifetime, so
+  // a shared office IP needs room; reuse detection guards the tokens themselves
+  refresh: { windowMs: 15 * MINUTE, ipMax: 2000, accountMax: 20 },
+  "password-reset": { windowMs: 60 * MINUTE, ipMax: 10, accountMax: 3 }, // mails a link
+  public: { windowMs: 5 * MINUTE, ipMax: 300 }, // public links and file request pages
+  "public-unlock": { windowMs: 15 * MINUTE, ipMax: 20, accountMax: 50 }, // public link passwords
+};
+
+function loadRules(): Record<RateLimitGroup, RateLimitRule> {
+  const rules = { ...DEFAULT_RULES };
+  if (!process.env.RATE_LIMITS) return rules;
+  try {
+    const overrides = JSON.parse(process.env.RATE_LIMITS) as Partial<Record<RateLimitGroup, Partial<RateLimitRule>>>;
+    for (const group of Object.keys(overrides) as RateLimitGroup[]) {
+      if (rules[group]) rules[group] = { ...rules[group], ...overrides[group] };
+    }
+  } catch {
+    throw new Error("❌ RATE_LIMITS must be a JSON object keyed by route group");
+  }
+  return rules;
+}
+
+export const RATE_LIMIT_RULES = loadRules();
+
+// Client address; honours X-Forwarded-For only when TRUST_PROXY is configured
+export function clientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+export function sendTooManyRequests(
+  res: Response,
+  resetAt: number,
+  error = "Too many requests, please try again later",
+  code = "RATE_LIMITED"
+): void {
+  const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+  res.setHeader("Retry-After", String(retryAfter));
+  res.status(429).json({ error, code, retryAfter });
+}
+
+interface RateLimitOptions {
+  // Account the request is about, for the per-account bucket (e.g. the email
+  // being logged into). Requests without one only count per IP.
+  account?: (req: Request) => string | null | undefined;
+}
+
+// ==============================
+// Rate limit (per IP, plus per account when the group has accountMax)
+// ==============================
+// Fixed windows in the shared rate limit store. Store failures let the
+// request through: an unreachable Redis must not take login down with it.
+export const rateLimit = (group: RateLimitGroup, options: RateLimitOptions = {}) => {
+  const rule = RATE_LIMIT_RULES[group];
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const ipCounter = await rateLimitStore.increment(`${group}:ip:${clientIp(req)}`, rule.windowMs);
+      res.setHeader("RateLimit-Limit", String(rule.ipMax));
+      res.setHeader("RateLimit-Remaining", String(Math.max(0, rule.ipMax - ipCounter.count)));
+      res.setHeader("RateLimit-Reset", String(Math.ceil((ipCounter.resetAt - Date.now()) / 1000)));
+      if (ipCounter.count > rule.ipMax) return sendTooManyRequests(res, ipCounter.resetAt);
+
+      const account = rule.accountMax ? options.account?.(req) : null;
+      if (account) {
+        const key = `${group}:account:${String(account).trim().toLowerCase()}`;
+        const accountCounter = await rateLimitStore.increment(key, rule.windowMs);
+        if (accountCounter.count > (rule.accountMax as number)) return sendTooManyRequests(res, accountCounter.resetAt);
+      }
+    } catch (error) {
+      console.error("Rate limit store error:", error);
+    }
+    next();
+  };
+};
@@ -0,0 +1,27 @@
+import type { Request, Response, NextFunction } from "express";
+import type { TokenScope } from "../utils/personal-tokens";
+
+// ==============================
+// Token scopes (mount after authMiddleware)
+// ==============================
+// Signed-in sessions may do everything; personal access tokens only what
+// their scopes allow. Every route reachable with a token names its scope.
+export const requireScope = (scope: TokenScope) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.tokenScopes && !req.tokenScopes.includes(scope)) {
+      res.status(403).json({ error: `Token is missing the ${scope} scope`, code: "INSUFFICIENT_SCOPE", scope });
+      return;
+    }
+    next();
+  };
+};
+
+// Account and security endpoints (sessions, passwords, 2FA, tokens, billing,
+// transfers, admin) are never available to personal access tokens
+export const sessionOnly = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.tokenScopes) {
+    res.status(403).json({ error: "Personal access tokens cannot be used here", code: "SESSION_REQUIRED" });
+    return;
+  }
+  next();
+};
@@ -1,7 +1,7 @@
 // backend/src/realtime/socket.ts
 import { Server } from "socket.io";
 import type { Server as HttpServer } from "http";
-import jwt from "jsonwebtoken";
+import { isSessionActive, verifyAccessToken } from "../utils/sessions";
 
 export function setupRealtime(httpServer: HttpServer) {
   const io = new Server(httpServer, {
@@ -11,25 +11,30 @@ export function setupRealtime(httpServer: HttpServer) {
     },
   });
 
-  io.use((socket, next) => {
+  io.use(async (socket, next) => {
     // Accept token via auth or Authorization header
     const token =
       (socket.handshake.auth as any)?.token ||
       (socket.handshake.headers.authorization || "").replace(/^Bearer\s+/i, "");
     if (!token) return next(new Error("Unauthorized"));
 
-    try {
-      const decoded = jwt.verify(
-        token,
-        process.env.JWT_SECRET || "your-secret-key"
-      ) as { userId: string; email: string };
+    const decoded = verifyAccessToken(token);
+    if (!decoded) return next(new Error("Unauthorized"));
 
-      (socket as any).userId = decoded.userId;
-      socket.join(`user:${decoded.userId}`);
-      return next();
+    try {
+      if (!(await isSessionActive(decoded.sid, decoded.userId))) {
+        return next(new Error("Session has been signed out"));
+      }
     } catch {
       return next(new Error("Unauthorized"));
     }
+
+    (socket as any).userId = decoded.userId;
+    (socket as any).sessionId = decoded.sid;
+    socket.join(`user:${decoded.userId}`);
+    // Revoking the session disconnects every socket in this room
+    socket.join(`session:${decoded.sid}`);
+    return next();
   });
 
   io.on("connection", (socket) => {
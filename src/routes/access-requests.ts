@@ -0,0 +1,365 @@
+// src/routes/access-requests.ts
+//
+// Requests for access to a file the caller cannot open. The owner is told
+// live and through a stored notification; approving creates (or raises) an
+// ordinary share through createShare, exactly like POST /api/shares/:fileId/share.
+import { Router, Request, Response } from "express";
+import { supabase } from "../lib/supabase";
+import { authMiddleware, requireVerifiedEmail } from "../middlewares/auth-middleware";
+import { requireScope } from "../middlewares/scope-middleware";
+import { getCurrentUserEmail } from "../utils/permissions";
+import { FileAction, authorizeFile } from "../utils/policy";
+import { emitToUsers, notifyUsers } from "../utils/notifications";
+import { SHARE_PERMISSIONS, SharePermission, ShareError, createShare } from "../utils/shares";
+
+const router = Router();
+
+const REQUEST_COLUMNS = `
+  id, file_id, requester_id, permissions, message, status, share_id, responded_by, created_at, responded_at,
+  files!inner ( name, is_folder, user_id ),
+  requester:profiles!access_requests_requester_id_fkey ( email, first_name, last_name )
+`;
+
+// The action that proves a caller already has a given share level
+const LEVEL_ACTION: Record<SharePermission, FileAction> = { view: "read", edit: "write", admin: "share" };
+
+function isSharePermission(value: unknown): value is SharePermission {
+  return (SHARE_PERMISSIONS as readonly unknown[]).includes(value);
+}
+
+function toAccessRequest(row: any) {
+  const requester = row.requester ?? {};
+  return {
+    id: row.id,
+    file_id: row.file_id,
+    file_name: row.files?.name ?? null,
+    is_folder: !!row.files?.is_folder,
+    requester_id: row.requester_id,
+    requester_email: requester.email ?? null,
+    requester_name: [requester.first_name, requester.last_name].filter(Boolean).join(" ") || null,
+    permissions: row.permissions,
+    message: row.message ?? null,
+    status: row.status,
+    share_id: row.share_id ?? null,
+    responded_by: row.responded_by ?? null,
+    created_at: row.created_at,
+    responded_at: row.responded_at ?? null,
+  };
+}
+
+// What the requester sees: nothing about the file until they are let in
+function toRequesterView(row: any) {
+  const request = toAccessRequest(row);
+  if (request.status === "approved") return request;
+  return { ...request, file_name: null, is_folder: null };
+}
+
+/**
+ * The requester already has a direct share on the file: raise it to `level`
+ * but never lower it, and keep its expiry unless a new one is given (an
+ * expiry already in the past is cleared, or approving would grant nothing).
+ */
+async function raiseExistingShare(fileId: string, email: string, level: SharePermission, expiry: string | null) {
+  const { data: existing, error } = await supabase
+    .from("shares")
+    .select("id, permissions, expires_at")
+    .eq("file_id", fileId)
+    .eq("shared_with_email", email)
+    .single();
+  if (error) throw error;
+
+  const current = isSharePermission(existing.permissions) ? existing.permissions : "view";
+  const permissions = SHARE_PERMISSIONS.indexOf(current) >= SHARE_PERMISSIONS.indexOf(level) ? current : level;
+  const stillValid = existing.expires_at && new Date(existing.expires_at).getTime() > Date.now();
+  const expiresAt = expiry ?? (stillValid ? existing.expires_at : null);
+
+  const { data: share, error: upErr } = await supabase
+    .from("shares")
+    .update({ permissions, expires_at: expiresAt, expired_at: null })
+    .eq("id", existing.id)
+    .select("id, file_id, shared_with_email, permissions, expires_at, created_at")
+    .single();
+  if (upErr) throw upErr;
+  return { ...share, permissions: permissions as SharePermission };
+}
+
+// Load a pending request the caller may decide on ("share" on the file)
+async function loadForDecision(userId: string, requestId: string) {
+  const { data: request, error } = await supabase
+    .from("access_requests")
+    .select(REQUEST_COLUMNS)
+    .eq("id", requestId)
+    .eq("status", "pending")
+    .maybeSingle();
+  if (error) throw error;
+  if (!request) return null;
+  const access = await authorizeFile(userId, request.file_id, "share");
+  return access.allowed ? request : null;
+}
+
+// ------------------------------
+// Ask for access
+// ------------------------------
+router.post("/", authMiddleware, requireScope("shares:manage"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { fileId, permissions = "view", message } = req.body as {
+      fileId?: string;
+      permissions?: string;
+      message?: string;
+    };
+
+    if (!fileId) return res.status(400).json({ error: "fileId is required" });
+    if (!isSharePermission(permissions)) {
+      return res.status(400).json({ error: 'Invalid permissions. Must be "view", "edit" or "admin"' });
+    }
+
+    // Missing files, repeated requests and new ones all get the same answer,
+    // so requesting access cannot be used to probe which file ids exist
+    const accepted = () => res.status(202).json({ message: "Access requested" });
+
+    const { data: file } = await supabase
+      .from("files")
+      .select("id, name, is_folder, is_deleted, user_id")
+      .eq("id", fileId)
+      .maybeSingle();
+    if (!file || file.is_deleted) return accepted();
+
+    const access = await authorizeFile(userId, fileId, LEVEL_ACTION[permissions]);
+    if (access.allowed) return res.status(409).json({ error: "You already have this access" });
+
+    const { data: request, error } = await supabase
+      .from("access_requests")
+      .insert({
+        file_id: fileId,
+        requester_id: userId,
+        permissions,
+        message: message ? String(message).slice(0, 1000) : null,
+      })
+      .select(REQUEST_COLUMNS)
+      .single();
+    if (error) {
+      if ((error as any).code === "23505") return accepted(); // already asked
+      throw error;
+    }
+
+    const io = req.app.get("io");
+    const payload = toAccessRequest(request);
+    emitToUsers(io, [file.user_id], "access:requested", payload);
+    await notifyUsers(io, [file.user_id], {
+      type: "access_requested",
+      actorId: userId,
+      fileId,
+      data: {
+        request_id: request.id,
+        name: file.name,
+        is_folder: !!file.is_folder,
+        permissions,
+        message: payload.message,
+        email: payload.requester_email,
+      },
+    });
+
+    return accepted();
+  } catch (error) {
+    console.error("Request access error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// List requests: incoming (on files you own, or ?fileId= for a file you can
+// share) or outgoing (your own)
+// ------------------------------
+router.get("/", authMiddleware, requireScope("shares:manage"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const direction = req.query.direction === "outgoing" ? "outgoing" : "incoming";
+    const status = String(req.query.status ?? "pending");
+    const fileId = req.query.fileId as string | undefined;
+    if (!["pending", "approved", "denied", "cancelled", "all"].includes(status)) {
+      return res.status(400).json({ error: "Invalid status" });
+    }
+
+    let select = supabase.from("access_requests").select(REQUEST_COLUMNS);
+    if (direction === "outgoing") {
+      select = select.eq("requester_id", userId);
+    } else if (fileId) {
+      if (!(await authorizeFile(userId, fileId, "share")).allowed) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      select = select.eq("file_id", fileId);
+    } else {
+      select = select.eq("files.user_id", userId);
+    }
+    if (status !== "all") select = select.eq("status", status);
+
+    const { data, error } = await select.order("created_at", { ascending: false }).limit(200);
+    if (error) throw error;
+    return res.json({ requests: (data ?? []).map(direction === "outgoing" ? toRequesterView : toAccessRequest) });
+  } catch (error) {
+    console.error("List access requests error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Approve: share the file with the requester (optionally at another level)
+// ------------------------------
+router.post("/:id/approve", authMiddleware, requireScope("shares:manage"), requireVerifiedEmail, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { permissions, expiresAt } = (req.body ?? {}) as { permissions?: string; expiresAt?: string | null };
+
+    const request = await loadForDecision(userId, req.params.id);
+    if (!request) return res.status(404).json({ error: "Access request not found" });
+
+    const level = permissions ?? request.permissions;
+    if (!isSharePermission(level)) {
+      return res.status(400).json({ error: 'Invalid permissions. Must be "view", "edit" or "admin"' });
+    }
+    let expiry: string | null = null;
+    if (expiresAt) {
+      const date = new Date(String(expiresAt));
+      if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+        return res.status(400).json({ error: "expiresAt must be a future date" });
+      }
+      expiry = date.toISOString();
+    }
+
+    const email = await getCurrentUserEmail(request.requester_id);
+    if (!email) return res.status(404).json({ error: "User not found" });
+
+    // Claim the request first so a concurrent deny (or second approve) loses
+    const { data: claimed, error: claimErr } = await supabase
+      .from("access_requests")
+      .update({ status: "approved", responded_by: userId, responded_at: new Date().toISOString() })
+      .eq("id", request.id)
+      .eq("status", "pending")
+      .select("id")
+      .maybeSingle();
+    if (claimErr) throw claimErr;
+    if (!claimed) return res.status(409).json({ error: "Access request is no longer pending" });
+
+    const io = req.app.get("io");
+    let shareId: string;
+    let granted: SharePermission = level;
+    try {
+      try {
+        const created = await createShare(io, {
+          fileId: request.file_id,
+          actorId: userId,
+          email,
+          permissions: level,
+          expiresAt: expiry,
+        });
+        shareId = created.share.id;
+      } catch (err) {
+        if (!(err instanceof ShareError) || err.status !== 409) throw err;
+        const raised = await raiseExistingShare(request.file_id, email, level, expiry);
+        shareId = raised.id;
+        granted = raised.permissions;
+        emitToUsers(io, [userId, (request.files as any).user_id, request.requester_id], "share:updated", raised);
+      }
+    } catch (err) {
+      // Nothing was granted: leave the request open for another try
+      await supabase
+        .from("access_requests")
+        .update({ status: "pending", responded_by: null, responded_at: null })
+        .eq("id", request.id);
+      throw err;
+    }
+
+    const { data: updated, error } = await supabase
+      .from("access_requests")
+      .update({ permissions: granted, share_id: shareId })
+      .eq("id", request.id)
+      .select(REQUEST_COLUMNS)
+      .single();
+    if (error) throw error;
+
+    const payload = toAccessRequest(updated);
+    emitToUsers(io, [request.requester_id, userId], "access:approved", payload);
+    await notifyUsers(io, [request.requester_id], {
+      type: "access_approved",
+      actorId: userId,
+      fileId: request.file_id,
+      data: { request_id: request.id, share_id: shareId, name: payload.file_name, permissions: granted },
+    });
+
+    return res.json({ message: "Access granted", request: payload });
+  } catch (error) {
+    if (error instanceof ShareError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Approve access request error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Deny
+// ------------------------------
+router.post("/:id/deny", authMiddleware, requireScope("shares:manage"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+
+    const request = await loadForDecision(userId, req.params.id);
+    if (!request) return res.status(404).json({ error: "Access request not found" });
+
+    const { data: updated, error } = await supabase
+      .from("access_requests")
+      .update({ status: "denied", responded_by: userId, responded_at: new Date().toISOString() })
+      .eq("id", request.id)
+      .eq("status", "pending")
+      .select(REQUEST_COLUMNS)
+      .maybeSingle();
+    if (error) throw error;
+    if (!updated) return res.status(409).json({ error: "Access request is no longer pending" });
+
+    const io = req.app.get("io");
+    const payload = toAccessRequest(updated);
+    emitToUsers(io, [userId], "access:denied", payload);
+    emitToUsers(io, [request.requester_id], "access:denied", toRequesterView(updated));
+    await notifyUsers(io, [request.requester_id], {
+      type: "access_denied",
+      actorId: userId,
+      fileId: request.file_id,
+      data: { request_id: request.id },
+    });
+
+    return res.json({ message: "Access request denied", request: payload });
+  } catch (error) {
+    console.error("Deny access request error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Withdraw (requester)
+// ------------------------------
+router.delete("/:id", authMiddleware, requireScope("shares:manage"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+
+    const { data: updated, error } = await supabase
+      .from("access_requests")
+      .update({ status: "cancelled", responded_at: new Date().toISOString() })
+      .eq("id", req.params.id)
+      .eq("requester_id", userId)
+      .eq("status", "pending")
+      .select(REQUEST_COLUMNS)
+      .maybeSingle();
+    if (error) throw error;
+    if (!updated) return res.status(404).json({ error: "Access request not found" });
+
+    emitToUsers(req.app.get("io"), [(updated.files as any).user_id], "access:cancelled", toAccessRequest(updated));
+
+    return res.json({ message: "Access request withdrawn", request: toRequesterView(updated) });
+  } catch (error) {
+    console.error("Withdraw access request error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
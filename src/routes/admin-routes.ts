@@ -0,0 +1,31 @@
+// src/routes/admin-routes.ts
+import { Router, Request, Response } from "express";
+import { authMiddleware } from "../middlewares/auth-middleware";
+import { sessionOnly } from "../middlewares/scope-middleware";
+import { adminMiddleware } from "../middlewares/admin-middleware";
+import { recomputeAllQuotas } from "../jobs/recompute-quotas";
+import { recomputeQuotaUsage } from "../utils/quota";
+
+const router = Router();
+
+router.use(authMiddleware, sessionOnly, adminMiddleware);
+
+// Rebuild quota usage from files/file_versions (one user or everyone)
+router.post("/quotas/recompute", async (req: Request, res: Response) => {
+  try {
+    const { userId } = (req.body ?? {}) as { userId?: string };
+
+    if (userId) {
+      await recomputeQuotaUsage(userId);
+      return res.json({ message: "Quota recomputed", processed: 1, failed: [] });
+    }
+
+    const result = await recomputeAllQuotas();
+    return res.json({ message: "Quotas recomputed", ...result });
+  } catch (error) {
+    console.error("Recompute quotas error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
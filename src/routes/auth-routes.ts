@@ -1,9 +1,29 @@
 import { Router, Request, Response } from "express";
-import jwt from "jsonwebtoken";
 import bcrypt from "bcrypt";
 import passport from "passport";
 import { Strategy as GoogleStrategy, Profile } from "passport-google-oauth20";
 import { supabase } from "../lib/supabase";
+import { authMiddleware } from "../middlewares/auth-middleware";
+import { sessionOnly } from "../middlewares/scope-middleware";
+import { rateLimit } from "../middlewares/rate-limit-middleware";
+import { attemptSubject, clearFailedAttempts, guardAttempt, recordFailedAttempt } from "../utils/failed-attempts";
+import { attachPendingShares } from "../utils/invites";
+import { consumeAccountToken, sendPasswordResetEmail, sendVerificationEmail } from "../utils/account-tokens";
+import {
+  disableTwoFactor,
+  isTwoFactorEnabled,
+  issueLoginChallenge,
+  verifyLoginChallenge,
+  verifySecondFactor,
+} from "../utils/two-factor";
+import {
+  SESSION_COLUMNS,
+  SessionError,
+  createSession,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession,
+} from "../utils/sessions";
 
 // ==============================
 // Google OAuth with Passport
@@ -14,8 +34,10 @@ passport.use(
       clientID: process.env.GOOGLE_CLIENT_ID || "",
       clientSecret: process.env.GOOGLE_CLIENT_SECRET || "",
       callbackURL: (process.env.BACKEND_URL || "https://clouddrivebackend.onrender.com") + "/api/auth/google/callback",
+      passReqToCallback: true,
     },
     async (
+      req: Request,
       accessToken: string,
       refreshToken: string,
       profile: Profile,
@@ -47,6 +69,7 @@ passport.use(
               first_name: firstName || null,
               last_name: lastName || null,
               google_id: googleId,
+              email_verified_at: new Date().toISOString(), // Google has verified the address
               created_at: new Date().toISOString(),
               updated_at: new Date().toISOString(),
             })
@@ -59,15 +82,30 @@ passport.use(
           }
 
           existingUser = newUser;
-        } else if (!existingUser.google_id) {
-          // Update Google ID if not set
-          await supabase
+        } else if (!existingUser.email_verified_at) {
+          // Signing in with Google proves the address. Whoever registered it
+          // unverified never did, and may not be its owner: drop their
+          // password, 2FA and sessions so only the real owner keeps access.
+          const { error: claimError } = await supabase
             .from("profiles")
             .update({
               google_id: googleId,
+              password_hash: null,
+              email_verified_at: new Date().toISOString(),
               updated_at: new Date().toISOString(),
             })
             .eq("id", existingUser.id);
+          if (claimError) return done(claimError, false);
+          await disableTwoFactor(existingUser.id);
+          await revokeAllSessions(req.app.get("io"), existingUser.id, "email_claimed");
+          const { data: claimed } = await supabase.from("profiles").select("*").eq("id", existingUser.id).single();
+          existingUser = claimed ?? existingUser;
+        } else if (!existingUser.google_id) {
+          // Update Google ID if not set
+          await supabase
+            .from("profiles")
+            .update({ google_id: googleId, updated_at: new Date().toISOString() })
+            .eq("id", existingUser.id);
         }
 
         return done(null, existingUser);
@@ -104,19 +142,52 @@ passport.deserializeUser(async (id: string, done) => {
 // ==============================
 const router = Router();
 
-// Helper: generate JWT
-const generateToken = (userId: string, email: string) => {
-  return jwt.sign(
-    { userId, email },
-    process.env.JWT_SECRET || "your-secret-key",
-    { expiresIn: "7d" }
-  );
-};
+const MIN_PASSWORD_LENGTH = 8;
+
+// Per-account buckets: the email in the body, or the signed-in user
+const bodyEmail = (req: Request) => req.body?.email;
+// Refresh tokens are "<sessionId>.<secret>": count per session
+const refreshSession = (req: Request) => String(req.body?.refreshToken ?? "").split(".")[0] || null;
+const currentUser = (req: Request) => req.userId;
+
+function validateNewPassword(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Mark the address as verified (if it is still the account's address) and
+ * activate the shares that were waiting for it. Returns false when the
+ * account's email has changed since the link was mailed.
+ */
+async function markEmailVerified(req: Request, userId: string, email: string): Promise<boolean> {
+  const { data: user, error } = await supabase
+    .from("profiles")
+    .select("id, email, email_verified_at")
+    .eq("id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!user || user.email !== email) return false;
+
+  if (!user.email_verified_at) {
+    const { error: updateError } = await supabase
+      .from("profiles")
+      .update({ email_verified_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq("id", userId);
+    if (updateError) throw updateError;
+  }
+
+  // Shares sent to this email before it was verified
+  await attachPendingShares(req.app.get("io"), { id: user.id, email: user.email });
+  return true;
+}
 
 // ==============================
 // Register
 // ==============================
-router.post("/register", async (req: Request, res: Response): Promise<void> => {
+router.post("/register", rateLimit("auth", { account: bodyEmail }), async (req: Request, res: Response): Promise<void> => {
   try {
     const { email, password, firstName, lastName } = req.body;
     console.log("[AUTH] /register called", { email, hasPassword: !!password, firstName, lastName });
@@ -167,17 +238,24 @@ router.post("/register", async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const token = generateToken(newUser.id, newUser.email);
+    // Shares sent to this email are attached once the address is verified
+    const verificationEmailSent = await sendVerificationEmail(newUser);
+
+    const { token, refreshToken, expiresIn } = await createSession(newUser, req);
 
     res.status(201).json({
       message: "User registered successfully",
       success: true,
       token,
+      refreshToken,
+      expiresIn,
+      verificationEmailSent,
       user: {
         id: newUser.id,
         email: newUser.email,
         first_name: newUser.first_name,
         last_name: newUser.last_name,
+        email_verified: false,
       },
     });
   } catch (error: any) {
@@ -193,7 +271,26 @@ router.post("/register", async (req: Request, res: Response): Promise<void> => {
 // ==============================
 // Login
 // ==============================
-router.post("/login", async (req: Request, res: Response): Promise<void> => {
+async function sendLoginSuccess(req: Request, res: Response, user: any): Promise<void> {
+  const { token, refreshToken, expiresIn } = await createSession(user, req);
+
+  res.json({
+    message: "Login successful",
+    success: true,
+    token,
+    refreshToken,
+    expiresIn,
+    user: {
+      id: user.id,
+      email: user.email,
+      first_name: user.first_name,
+      last_name: user.last_name,
+      email_verified: !!user.email_verified_at,
+    },
+  });
+}
+
+router.post("/login", rateLimit("login", { account: bodyEmail }), async (req: Request, res: Response): Promise<void> => {
   try {
     const { email, password } = req.body;
 
@@ -202,6 +299,10 @@ router.post("/login", async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // Locked out, or slowed down after repeated failures
+    const subject = attemptSubject(req, String(email));
+    if (!(await guardAttempt(res, "login", subject))) return;
+
     // Find user
     const { data: user } = await supabase
       .from("profiles")
@@ -210,30 +311,32 @@ router.post("/login", async (req: Request, res: Response): Promise<void> => {
       .single();
 
     if (!user) {
+      await recordFailedAttempt("login", subject);
       res.status(401).json({ error: "Invalid credentials" });
       return;
     }
 
-    // Verify password
-    const isPasswordValid = await bcrypt.compare(password, user.password_hash);
+    // Verify password (Google-only accounts have none)
+    const isPasswordValid = !!user.password_hash && (await bcrypt.compare(password, user.password_hash));
     if (!isPasswordValid) {
+      await recordFailedAttempt("login", subject);
       res.status(401).json({ error: "Invalid credentials" });
       return;
     }
+    await clearFailedAttempts("login", subject);
+
+    // With 2FA the password only earns a challenge; the session comes from /login/2fa
+    if (isTwoFactorEnabled(user)) {
+      res.json({
+        message: "Two-factor code required",
+        success: true,
+        twoFactorRequired: true,
+        ...issueLoginChallenge(user.id),
+      });
+      return;
+    }
 
-    const token = generateToken(user.id, user.email);
-
-    res.json({
-      message: "Login successful",
-      success: true,
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        first_name: user.first_name,
-        last_name: user.last_name,
-      },
-    });
+    await sendLoginSuccess(req, res, user);
   } catch (error: any) {
     console.error("💥 Login error:", error);
     res.status(500).json({
@@ -245,32 +348,55 @@ router.post("/login", async (req: Request, res: Response): Promise<void> => {
 });
 
 // ==============================
-// Get Current User
+// Login, second step: { challengeToken, code } or { challengeToken, recoveryCode }
 // ==============================
-router.get("/me", async (req: Request, res: Response): Promise<void> => {
+router.post("/login/2fa", rateLimit("login"), async (req: Request, res: Response): Promise<void> => {
   try {
-    const authHeader = req.headers.authorization;
+    const { challengeToken, code, recoveryCode } = req.body ?? {};
+    if (!challengeToken || (!code && !recoveryCode)) {
+      res.status(400).json({ error: "challengeToken and code (or recoveryCode) are required", success: false });
+      return;
+    }
 
-    if (!authHeader?.startsWith("Bearer ")) {
-      res.status(401).json({ error: "Access token required" });
+    const userId = verifyLoginChallenge(String(challengeToken));
+    if (!userId) {
+      res.status(401).json({ error: "Login challenge expired, sign in again", success: false });
       return;
     }
 
-    const token = authHeader.substring(7);
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || "your-secret-key"
-    ) as { userId: string };
+    const { data: user } = await supabase.from("profiles").select("*").eq("id", userId).maybeSingle();
+    if (!user || !isTwoFactorEnabled(user)) {
+      res.status(401).json({ error: "Login challenge expired, sign in again", success: false });
+      return;
+    }
 
-    if (!decoded.userId) {
-      res.status(401).json({ error: "Invalid token" });
+    const subject = attemptSubject(req, user.id);
+    if (!(await guardAttempt(res, "2fa", subject))) return;
+
+    const method = await verifySecondFactor(user.id, { code, recoveryCode });
+    if (!method) {
+      await recordFailedAttempt("2fa", subject);
+      res.status(401).json({ error: "Invalid two-factor code", success: false });
       return;
     }
+    await clearFailedAttempts("2fa", subject);
 
+    await sendLoginSuccess(req, res, user);
+  } catch (error: any) {
+    console.error("Two-factor login error:", error);
+    res.status(500).json({ error: "Internal server error", success: false });
+  }
+});
+
+// ==============================
+// Get Current User
+// ==============================
+router.get("/me", authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
     const { data: user } = await supabase
       .from("profiles")
       .select("*")
-      .eq("id", decoded.userId)
+      .eq("id", req.userId)
       .single();
 
     if (!user) {
@@ -285,6 +411,8 @@ router.get("/me", async (req: Request, res: Response): Promise<void> => {
         email: user.email,
         first_name: user.first_name,
         last_name: user.last_name,
+        email_verified: !!user.email_verified_at,
+        two_factor_enabled: isTwoFactorEnabled(user),
         created_at: user.created_at,
         updated_at: user.updated_at,
       },
@@ -314,10 +442,23 @@ router.get("/google/callback",
   async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
-      const token = generateToken(user.id, user.email);
+
+      // Shares sent to this email before it was verified (no-op when none are pending)
+      await attachPendingShares(req.app.get("io"), { id: user.id, email: user.email });
 
       const frontendUrl = process.env.CLIENT_URL || "https://cloud-drive-frontend-six.vercel.app";
-      res.redirect(`${frontendUrl}/drive?token=${token}&login=success`);
+
+      // Google proves the password step only; 2FA users finish at /login/2fa
+      if (isTwoFactorEnabled(user)) {
+        const { challengeToken } = issueLoginChallenge(user.id);
+        res.redirect(`${frontendUrl}/signin?twoFactor=required&challenge=${challengeToken}`);
+        return;
+      }
+
+      const { token, refreshToken } = await createSession(user, req);
+      res.redirect(
+        `${frontendUrl}/drive?token=${token}&refreshToken=${encodeURIComponent(refreshToken)}&login=success`
+      );
     } catch (error: any) {
       console.error("Google OAuth callback error:", error);
       res.redirect(`${process.env.CLIENT_URL || "https://cloud-drive-frontend-six.vercel.app"}/signin?error=oauth_failed`);
@@ -326,13 +467,246 @@ router.get("/google/callback",
 );
 
 // ==============================
-// Logout
+// Email verification
 // ==============================
-router.post("/logout", (_req: Request, res: Response) => {
-  res.json({
-    success: true,
-    message: "Logged out successfully",
-  });
+router.post("/verify-email", rateLimit("auth"), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.body ?? {};
+    if (!token) {
+      res.status(400).json({ error: "token is required", success: false });
+      return;
+    }
+
+    const consumed = await consumeAccountToken(token, "email_verification");
+    if (!consumed || !(await markEmailVerified(req, consumed.userId, consumed.email))) {
+      res.status(400).json({ error: "Invalid or expired verification link", success: false });
+      return;
+    }
+
+    res.json({ success: true, message: "Email verified" });
+  } catch (error: any) {
+    console.error("Verify email error:", error);
+    res.status(500).json({ error: "Internal server error", success: false });
+  }
+});
+
+router.post("/resend-verification", authMiddleware, sessionOnly, rateLimit("password-reset", { account: currentUser }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (req.user.email_verified_at) {
+      res.status(409).json({ error: "Email is already verified", success: false });
+      return;
+    }
+
+    const sent = await sendVerificationEmail({ id: req.user.id, email: req.user.email });
+    if (!sent) {
+      res.status(502).json({ error: "Could not send the verification email", success: false });
+      return;
+    }
+    res.json({ success: true, message: "Verification email sent" });
+  } catch (error: any) {
+    console.error("Resend verification error:", error);
+    res.status(500).json({ error: "Internal server error", success: false });
+  }
+});
+
+// ==============================
+// Password reset
+// ==============================
+router.post("/forgot-password", rateLimit("password-reset", { account: bodyEmail }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body ?? {};
+    if (!email) {
+      res.status(400).json({ error: "Email is required", success: false });
+      return;
+    }
+
+    const { data: user } = await supabase
+      .from("profiles")
+      .select("id, email")
+      .eq("email", String(email))
+      .maybeSingle();
+    if (user) await sendPasswordResetEmail(user);
+
+    // Same answer either way, so the endpoint does not reveal who has an account
+    res.json({ success: true, message: "If an account exists for this email, a reset link has been sent" });
+  } catch (error: any) {
+    console.error("Forgot password error:", error);
+    res.status(500).json({ error: "Internal server error", success: false });
+  }
+});
+
+router.post("/reset-password", rateLimit("auth"), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, password } = req.body ?? {};
+    if (!token) {
+      res.status(400).json({ error: "token is required", success: false });
+      return;
+    }
+    const invalid = validateNewPassword(password);
+    if (invalid) {
+      res.status(400).json({ error: invalid, success: false });
+      return;
+    }
+
+    const consumed = await consumeAccountToken(token, "password_reset");
+    if (!consumed) {
+      res.status(400).json({ error: "Invalid or expired reset link", success: false });
+      return;
+    }
+
+    const { data: updated, error } = await supabase
+      .from("profiles")
+      .update({ password_hash: await bcrypt.hash(password, 12), updated_at: new Date().toISOString() })
+      .eq("id", consumed.userId)
+      .eq("email", consumed.email)
+      .select("id")
+      .maybeSingle();
+    if (error) throw error;
+    if (!updated) {
+      res.status(400).json({ error: "Invalid or expired reset link", success: false });
+      return;
+    }
+
+    // Whoever knew the old password is signed out everywhere; the link also
+    // proves the address
+    await revokeAllSessions(req.app.get("io"), consumed.userId, "password_reset");
+    await markEmailVerified(req, consumed.userId, consumed.email);
+
+    res.json({ success: true, message: "Password has been reset. Please sign in again." });
+  } catch (error: any) {
+    console.error("Reset password error:", error);
+    res.status(500).json({ error: "Internal server error", success: false });
+  }
+});
+
+// ==============================
+// Change password (signs out other devices)
+// ==============================
+router.post("/change-password", authMiddleware, sessionOnly, rateLimit("auth", { account: currentUser }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { currentPassword, newPassword } = req.body ?? {};
+    const invalid = validateNewPassword(newPassword);
+    if (invalid) {
+      res.status(400).json({ error: invalid, success: false });
+      return;
+    }
+
+    // Google-only accounts have no password yet; they set one via forgot-password
+    if (!req.user.password_hash) {
+      res.status(400).json({ error: "This account has no password. Use forgot password to set one.", success: false });
+      return;
+    }
+    if (!currentPassword || !(await bcrypt.compare(String(currentPassword), req.user.password_hash))) {
+      res.status(401).json({ error: "Current password is incorrect", success: false });
+      return;
+    }
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ password_hash: await bcrypt.hash(newPassword, 12), updated_at: new Date().toISOString() })
+      .eq("id", req.userId);
+    if (error) throw error;
+
+    const signedOut = await revokeAllSessions(req.app.get("io"), req.userId as string, "password_changed", req.sessionId);
+    res.json({ success: true, message: "Password changed", sessions: signedOut });
+  } catch (error: any) {
+    console.error("Change password error:", error);
+    res.status(500).json({ error: "Internal server error", success: false });
+  }
+});
+
+// ==============================
+// Refresh (rotates the refresh token)
+// ==============================
+router.post("/refresh", rateLimit("refresh", { account: refreshSession }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body ?? {};
+    if (!refreshToken) {
+      res.status(400).json({ error: "refreshToken is required" });
+      return;
+    }
+
+    const issued = await rotateSession(req.app.get("io"), refreshToken, req);
+    res.json({
+      success: true,
+      token: issued.token,
+      refreshToken: issued.refreshToken,
+      expiresIn: issued.expiresIn,
+    });
+  } catch (error: any) {
+    if (error instanceof SessionError) {
+      res.status(error.status).json({ error: error.message, success: false });
+      return;
+    }
+    console.error("Refresh token error:", error);
+    res.status(500).json({ error: "Internal server error", success: false });
+  }
+});
+
+// ==============================
+// Sessions (signed-in devices)
+// ==============================
+router.get("/sessions", authMiddleware, sessionOnly, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { data, error } = await supabase
+      .from("user_sessions")
+      .select(SESSION_COLUMNS)
+      .eq("user_id", req.userId)
+      .is("revoked_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .order("last_used_at", { ascending: false });
+    if (error) throw error;
+
+    res.json({
+      success: true,
+      sessions: (data ?? []).map((s) => ({ ...s, current: s.id === req.sessionId })),
+    });
+  } catch (error: any) {
+    console.error("List sessions error:", error);
+    res.status(500).json({ error: "Internal server error", success: false });
+  }
+});
+
+router.delete("/sessions/:id", authMiddleware, sessionOnly, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const revoked = await revokeSession(req.app.get("io"), req.params.id, "logout", req.userId);
+    if (!revoked) {
+      res.status(404).json({ error: "Session not found", success: false });
+      return;
+    }
+    res.json({ success: true, message: "Session signed out" });
+  } catch (error: any) {
+    console.error("Revoke session error:", error);
+    res.status(500).json({ error: "Internal server error", success: false });
+  }
+});
+
+// ==============================
+// Logout (this device / all devices)
+// ==============================
+router.post("/logout", authMiddleware, sessionOnly, async (req: Request, res: Response): Promise<void> => {
+  try {
+    await revokeSession(req.app.get("io"), req.sessionId as string, "logout", req.userId);
+    res.json({
+      success: true,
+      message: "Logged out successfully",
+    });
+  } catch (error: any) {
+    console.error("Logout error:", error);
+    res.status(500).json({ error: "Internal server error", success: false });
+  }
+});
+
+router.post("/logout-all", authMiddleware, sessionOnly, async (req: Request, res: Response): Promise<void> => {
+  try {
+    // { keepCurrent: true } signs out every other device
+    const keep = req.body?.keepCurrent === true ? req.sessionId : undefined;
+    const count = await revokeAllSessions(req.app.get("io"), req.userId as string, "logout_all", keep);
+    res.json({ success: true, message: "Logged out of all devices", sessions: count });
+  } catch (error: any) {
+    console.error("Logout all error:", error);
+    res.status(500).json({ error: "Internal server error", success: false });
+  }
 });
 
 export default router;
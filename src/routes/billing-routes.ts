@@ -1,6 +1,7 @@
 // src/routes/billing-routes.ts
 import { Router, Request, Response } from "express";
 import { authMiddleware } from "../middlewares/auth-middleware";
+import { sessionOnly } from "../middlewares/scope-middleware";
 import Stripe from "stripe";
 import dotenv from "dotenv";
 import { supabase } from "../lib/supabase";
@@ -68,7 +69,7 @@ router.get("/prices", async (_req: Request, res: Response) => {
 });
 
 // Create Checkout Session for subscription upgrades
-router.post("/checkout", authMiddleware, async (req: Request, res: Response) => {
+router.post("/checkout", authMiddleware, sessionOnly, async (req: Request, res: Response) => {
   try {
     if (!stripe) return res.status(503).json({ error: "Billing not configured" });
 
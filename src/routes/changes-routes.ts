@@ -0,0 +1,84 @@
+// src/routes/changes-routes.ts
+//
+// Change journal for sync clients. Every create, update, move, trash,
+// restore, delete, new version and share change is appended to
+// `file_changes` by database triggers (see README), one row per user who
+// can see the file. Clients list the drive once, remember the cursor, and
+// from then on only ask for what changed after it.
+import { Router, Request, Response } from "express";
+import { supabase } from "../lib/supabase";
+import { authMiddleware } from "../middlewares/auth-middleware";
+import { requireScope } from "../middlewares/scope-middleware";
+import { InvalidCursorError, decodeCursor, encodeCursor } from "../utils/pagination";
+
+const router = Router();
+
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 1000;
+
+router.use(authMiddleware, requireScope("files:read"));
+
+function parseChangeCursor(raw: unknown): number {
+  if (raw === undefined || raw === "") return 0; // from the beginning of the journal
+  const { after } = decodeCursor<{ after: number }>(String(raw));
+  if (!Number.isSafeInteger(after) || after < 0) throw new InvalidCursorError();
+  return after;
+}
+
+// Changes after `cursor`, oldest first. Repeat with the returned cursor while hasMore is true.
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const after = parseChangeCursor(req.query.cursor);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(String(req.query.limit ?? DEFAULT_LIMIT), 10) || DEFAULT_LIMIT));
+
+    // Fetch one extra row to know whether another page follows
+    const { data, error } = await supabase.rpc("get_file_changes", {
+      p_user_id: userId,
+      p_after: after,
+      p_limit: limit + 1,
+    });
+    if (error) throw error;
+
+    const rows = (data ?? []) as any[];
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    const last = page.length > 0 ? Number(page[page.length - 1].seq) : after;
+
+    return res.json({
+      changes: page.map((row) => ({
+        id: Number(row.seq),
+        type: row.change_type,
+        fileId: row.file_id,
+        parentId: row.parent_id,
+        isFolder: row.is_folder,
+        name: row.name,
+        details: row.details ?? null,
+        createdAt: row.created_at,
+      })),
+      cursor: encodeCursor({ after: last }),
+      hasMore,
+    });
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("List changes error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Cursor for "now": take it before a full listing, then poll GET / with it
+router.get("/latest", async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { data, error } = await supabase.rpc("get_file_changes_head", { p_user_id: userId });
+    if (error) throw error;
+    return res.json({ cursor: encodeCursor({ after: Number(data ?? 0) }) });
+  } catch (error) {
+    console.error("Latest change cursor error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -2,8 +2,23 @@
 import { Router, Request, Response } from "express";
 import multer from "multer";
 import { supabase } from "../lib/supabase";
+import { storage as objectStorage } from "../lib/storage";
 import { authMiddleware } from "../middlewares/auth-middleware";
-import { hasFilePermission } from "../utils/permissions";
+import { requireScope } from "../middlewares/scope-middleware";
+import { requireFileAccess } from "../middlewares/policy-middleware";
+import { getFileAudience } from "../utils/permissions";
+import { authorizeFile } from "../utils/policy";
+import { broadcastFileEvent, emitToUsers } from "../utils/notifications";
+import { adjustQuotaUsage, enforceQuotaOnUpload, getFileStorageFootprint } from "../utils/quota";
+import { generateStorageFileName, recordUploadedFile } from "../utils/uploads";
+import { getFileExt } from "../utils/helpers";
+import { chunk, getDescendants, isSelfOrDescendant, updateFilesByIds } from "../utils/tree";
+import { executeCopy, planCopy } from "../utils/copy";
+import { collectZipEntries, loadZipRoots, streamZip } from "../utils/zip";
+import { THUMBNAIL_SIZES, ThumbnailSize, supportsThumbnail, thumbnailPath, thumbnailPaths } from "../jobs/thumbnail-worker";
+import { scheduleFileProcessing } from "../jobs/file-processing";
+import { FileQueryError, parseFileFilters, queryFiles } from "../utils/file-query";
+import { InvalidCursorError, parsePageRequest } from "../utils/pagination";
 
 const router = Router();
 
@@ -16,45 +31,14 @@ const upload = multer({
   },
 });
 
-// ------------------------------
-// Helpers
-// ------------------------------
-function getFileExt(name: string): string | null {
-  const parts = name.split(".");
-  return parts.length > 1 ? parts.pop() || null : null;
-}
-
-async function enforceQuotaOnUpload(userId: string, newFileSize: number) {
-  // Fetch quota row
-  const { data: quota } = await supabase
-    .from("user_quotas")
-    .select("storage_used, storage_limit, file_count, file_count_limit")
-    .eq("user_id", userId)
-    .maybeSingle();
-
-  const storageLimit = quota?.storage_limit ?? 5 * 1024 * 1024 * 1024; // 5GB default
-  const storageUsed = quota?.storage_used ?? 0;
-  const fileCount = quota?.file_count ?? 0;
-  const fileCountLimit = quota?.file_count_limit ?? 10000;
-
-  if (storageUsed + newFileSize > storageLimit) {
-    return {
-      allowed: false,
-      reason: `Storage limit exceeded. Used ${(storageUsed / (1024 * 1024)).toFixed(2)}MB / ${(storageLimit / (1024 * 1024)).toFixed(2)}MB. File adds ${(newFileSize / (1024 * 1024)).toFixed(2)}MB.`,
-      code: "STORAGE_LIMIT_EXCEEDED",
-    } as const;
-  }
-
-  if (fileCount + 1 > fileCountLimit) {
-    return {
-      allowed: false,
-      reason: `File count limit exceeded (${fileCountLimit}).` ,
-      code: "FILE_COUNT_LIMIT_EXCEEDED",
-    } as const;
-  }
-
-  return { allowed: true } as const;
-}
+// Creating items inside a folder (optional parentId in the body); never
+// inside a file or a trashed folder
+const parentFolderAccess = requireFileAccess("write", {
+  body: "parentId",
+  optional: true,
+  folder: true,
+  notFound: "Folder not found",
+});
 
 // ------------------------------
 // Upload file
@@ -62,67 +46,41 @@ async function enforceQuotaOnUpload(userId: string, newFileSize: number) {
 router.post(
   "/upload",
   authMiddleware,
+  requireScope("files:write"),
   upload.single("file"),
+  parentFolderAccess,
   async (req: Request, res: Response) => {
     try {
       const file = req.file;
       const userId = (req as any).userId as string;
       const parentId = req.body.parentId; // Get parentId from form data
+      // Uploads into a shared folder belong to (and are charged to) its owner
+      const ownerId = req.fileAccess?.ownerId ?? userId;
 
       if (!file) {
         return res.status(400).json({ error: "No file uploaded" });
       }
 
       // Enforce quota limits
-      const quotaCheck = await enforceQuotaOnUpload(userId, file.size);
+      const quotaCheck = await enforceQuotaOnUpload(ownerId, file.size);
       if (!quotaCheck.allowed) {
         return res.status(403).json({ error: quotaCheck.reason, code: quotaCheck.code });
       }
 
-      const fileExt = getFileExt(file.originalname) || undefined;
-      const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}${fileExt ? "." + fileExt : ""}`;
-
-      // Upload to Supabase Storage
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from("files")
-        .upload(`${userId}/${fileName}`, file.buffer, {
-          contentType: file.mimetype,
-          upsert: false,
-        });
+      const fileName = generateStorageFileName(file.originalname);
 
-      if (uploadError) throw uploadError;
-
-      // Save file metadata to database (align with DB schema)
-      const { data: fileData, error: dbError } = await supabase
-        .from("files")
-        .insert([
-          {
-            user_id: userId,
-            name: file.originalname, // display name
-            original_name: file.originalname,
-            size: file.size,
-            type: file.mimetype,
-            mime_type: file.mimetype,
-            extension: fileExt,
-            path: uploadData?.path,
-            parent_id: parentId || null,
-            // storage_bucket defaults to 'files'
-          },
-        ])
-        .select()
-        .single();
-
-      if (dbError) throw dbError;
+      // Upload to object storage
+      const uploadData = await objectStorage.put(`${ownerId}/${fileName}`, file.buffer, {
+        contentType: file.mimetype,
+      });
 
-      // Emit real-time event to the user's room
-      const io = req.app.get("io");
-      io?.to(`user:${userId}`).emit("file:created", {
-        id: fileData.id,
-        name: fileData.name,
-        size: fileData.size,
-        type: fileData.type,
-        path: fileData.path,
-        created_at: fileData.created_at,
+      const fileData = await recordUploadedFile(req.app.get("io"), {
+        userId: ownerId,
+        originalName: file.originalname,
+        size: file.size,
+        mimeType: file.mimetype,
+        path: uploadData.path,
+        parentId,
       });
 
       return res.json({
@@ -139,81 +97,23 @@ router.post(
 // ------------------------------
 // List files (filters + pagination + search)
 // ------------------------------
-router.get("/", authMiddleware, async (req: Request, res: Response) => {
+router.get("/", authMiddleware, requireScope("files:read"), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId as string;
-    const includeDeleted = String(req.query.deleted ?? "false").toLowerCase() === "true";
-    const parentIdRaw = (req.query.parentId as string | undefined) ?? undefined; // 'root' | UUID | undefined
-    const starred = String(req.query.starred ?? "false").toLowerCase() === "true";
-    const recent = String(req.query.recent ?? "false").toLowerCase() === "true";
-    const page = Math.max(1, parseInt(String(req.query.page ?? "1"), 10));
-    const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit ?? "20"), 10)));
-    const search = (req.query.search as string | undefined)?.trim();
-    const sortBy = (req.query.sortBy as string | undefined) ?? "created_at"; // name, size, created_at, updated_at
-    const sortOrder = (req.query.sortOrder as string | undefined) ?? "desc"; // asc, desc
-
-    // Base query
-    let select = supabase.from("files").select("*", { count: "exact" }).eq("user_id", userId);
-
-    // Deleted filter
-    select = select.eq("is_deleted", includeDeleted);
-
-    // Parent folder filter
-    if (typeof parentIdRaw !== "undefined") {
-      if (parentIdRaw === "" || parentIdRaw === "root" || parentIdRaw === "null") {
-        // Supabase needs .is for NULL
-        // @ts-ignore
-        select = (select as any).is("parent_id", null);
-      } else {
-        select = select.eq("parent_id", parentIdRaw);
-      }
-    }
-
-    // Starred filter
-    if (starred) select = select.eq("is_starred", true);
-
-    // Search: prefer FTS when enabled, fallback to ILIKE
-    let useFTS = false;
-    if (search && search.length > 1 && String(process.env.USE_FTS || 'false').toLowerCase() === 'true') {
-      useFTS = true;
-    }
-
-    // Ordering
-    const validSortFields = ["name", "size", "created_at", "updated_at"];
-    const sortField = validSortFields.includes(sortBy) ? sortBy : "created_at";
-    const ascending = sortOrder === "asc";
-    select = select.order(sortField, { ascending });
+    // page/limit, or cursor/limit for stable paging while files change
+    const pageRequest = parsePageRequest(req.query as Record<string, any>);
 
-    const from = (page - 1) * limit;
-    const to = from + limit - 1;
+    // Filters: see parseFileFilters (scope, type/category, size, dates, owner, recursive, ...)
+    const filters = parseFileFilters(req.query as Record<string, any>);
 
-    if (useFTS) {
-      try {
-        // Try FTS on a tsvector column named 'search_vector'
-        // @ts-ignore
-        const ftsSelect = (select as any).textSearch('search_vector', search, { config: 'english' });
-        const { data: files, error, count } = await ftsSelect.range(from, to);
-        if (!error) {
-          return res.json({ files, page, limit, total: count ?? files?.length ?? 0, fts: true });
-        }
-        // If FTS fails, fall back to ILIKE
-        console.warn('FTS failed, falling back to ILIKE:', error?.message);
-      } catch (e) {
-        console.warn('FTS not available, falling back to ILIKE');
-      }
+    return res.json(await queryFiles(userId, filters, pageRequest));
+  } catch (error) {
+    if (error instanceof FileQueryError) {
+      return res.status(error.status).json({ error: error.message });
     }
-
-    // Fallback/basic search (ILIKE on name and original_name)
-    if (search && search.length > 1) {
-      // @ts-ignore - supabase-js or typing
-      select = (select as any).or(`name.ilike.%${search}% , original_name.ilike.%${search}%`);
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
     }
-
-    const { data: files, error, count } = await select.range(from, to);
-    if (error) throw error;
-
-    return res.json({ files, page, limit, total: count ?? files?.length ?? 0, fts: false });
-  } catch (error) {
     console.error("List files error:", error);
     return res.status(500).json({ error: "Internal server error" });
   }
@@ -222,30 +122,30 @@ router.get("/", authMiddleware, async (req: Request, res: Response) => {
 // ------------------------------
 // Create folder
 // ------------------------------
-router.post("/folders", authMiddleware, async (req: Request, res: Response) => {
+router.post("/folders", authMiddleware, requireScope("files:write"), parentFolderAccess, async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId as string;
     const { name, parentId } = req.body as { name?: string; parentId?: string | null };
+    const ownerId = req.fileAccess?.ownerId ?? userId;
     if (!name || !name.trim()) {
       return res.status(400).json({ error: "Folder name is required" });
     }
 
     const payload: any = {
-      user_id: userId,
+      user_id: ownerId,
       name: name.trim(),
       original_name: name.trim(),
       size: 0,
       type: "folder",
       is_folder: true,
       parent_id: parentId || null,
-      path: `${userId}/folders/${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      path: `${ownerId}/folders/${Date.now()}-${Math.random().toString(36).slice(2)}`,
     };
 
     const { data: folder, error } = await supabase.from("files").insert([payload]).select().single();
     if (error) throw error;
 
-    const io = req.app.get("io");
-    io?.to(`user:${userId}`).emit("folder:created", {
+    emitToUsers(req.app.get("io"), [userId, ownerId], "folder:created", {
       id: folder.id,
       name: folder.name,
       parent_id: folder.parent_id,
@@ -262,23 +162,51 @@ router.post("/folders", authMiddleware, async (req: Request, res: Response) => {
 // ------------------------------
 // Update file metadata (rename, move, star)
 // ------------------------------
-router.patch("/:id", authMiddleware, async (req: Request, res: Response) => {
+// Renaming is "write"; moving is "delete" (it takes the item out of its
+// folder); starring and moving to the root, out of any shared folder, are
+// "manage"
+function patchAction(req: Request) {
+  const { parentId, starred } = (req.body ?? {}) as { parentId?: string | null; starred?: boolean };
+  if (typeof starred === "boolean" || (typeof parentId !== "undefined" && !parentId)) return "manage";
+  return typeof parentId !== "undefined" ? "delete" : "write";
+}
+
+router.patch("/:id", authMiddleware, requireScope("files:write"), requireFileAccess(patchAction), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId as string;
     const fileId = req.params.id;
     const { name, parentId, starred } = req.body as { name?: string; parentId?: string | null; starred?: boolean };
 
-    // Verify ownership
     const { data: exists, error: exErr } = await supabase
       .from("files")
-      .select("id, user_id")
+      .select("id, user_id, is_folder")
       .eq("id", fileId)
-      .eq("user_id", userId)
       .single();
     if (exErr || !exists) {
       return res.status(404).json({ error: "File not found" });
     }
 
+    // Moving: target must be one of the owner's folders the caller can edit
+    // and, for folders, must not be the folder itself or anything inside it
+    if (parentId) {
+      const { data: target, error: tErr } = await supabase
+        .from("files")
+        .select("id, is_folder, is_deleted")
+        .eq("id", parentId)
+        .eq("user_id", exists.user_id)
+        .maybeSingle();
+      if (tErr) throw tErr;
+      if (!target || !target.is_folder || target.is_deleted) {
+        return res.status(400).json({ error: "Target folder not found" });
+      }
+      if (!(await authorizeFile(userId, parentId, "write")).allowed) {
+        return res.status(400).json({ error: "Target folder not found" });
+      }
+      if (exists.is_folder && (await isSelfOrDescendant(parentId, fileId))) {
+        return res.status(400).json({ error: "Cannot move a folder into itself or one of its subfolders" });
+      }
+    }
+
     const update: any = {};
     if (typeof name === 'string' && name.trim()) update.name = name.trim(), update.original_name = name.trim();
     if (typeof parentId !== 'undefined') update.parent_id = parentId || null;
@@ -296,13 +224,22 @@ router.patch("/:id", authMiddleware, async (req: Request, res: Response) => {
       .single();
     if (error) throw error;
 
-    const io = req.app.get("io");
-    io?.to(`user:${userId}`).emit("file:updated", {
-      id: updated.id,
-      name: updated.name,
-      parent_id: updated.parent_id,
-      is_starred: (updated as any).is_starred,
-      updated_at: updated.updated_at,
+    // Everyone with access sees the change; recipients are notified of renames and moves
+    await broadcastFileEvent(req.app.get("io"), {
+      fileId,
+      actorId: userId,
+      event: "file:updated",
+      payload: {
+        id: updated.id,
+        name: updated.name,
+        parent_id: updated.parent_id,
+        is_starred: (updated as any).is_starred,
+        updated_at: updated.updated_at,
+      },
+      notification:
+        update.name !== undefined || update.parent_id !== undefined
+          ? { type: "file_updated", data: { name: updated.name, parent_id: updated.parent_id } }
+          : undefined,
     });
 
     return res.json({ message: "File updated", file: updated });
@@ -315,17 +252,15 @@ router.patch("/:id", authMiddleware, async (req: Request, res: Response) => {
 // ------------------------------
 // Soft delete file (move to trash)
 // ------------------------------
-router.delete("/:id", authMiddleware, async (req: Request, res: Response) => {
+router.delete("/:id", authMiddleware, requireScope("files:write"), requireFileAccess("delete"), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId as string;
     const fileId = req.params.id;
 
-    // Verify ownership
     const { data: file, error: fetchError } = await supabase
       .from("files")
-      .select("id, user_id, is_deleted")
+      .select("id, user_id, name, is_folder, is_deleted")
       .eq("id", fileId)
-      .eq("user_id", userId)
       .single();
 
     if (fetchError || !file) {
@@ -336,17 +271,22 @@ router.delete("/:id", authMiddleware, async (req: Request, res: Response) => {
       return res.status(409).json({ error: "File already in trash" });
     }
 
-    // Soft delete
-    const { error: dbError } = await supabase
-      .from("files")
-      .update({ is_deleted: true, deleted_at: new Date().toISOString() })
-      .eq("id", fileId);
-
-    if (dbError) throw dbError;
-
-    // Emit real-time deletion event
-    const io = req.app.get("io");
-    io?.to(`user:${userId}`).emit("file:deleted", { id: fileId, soft: true });
+    // Soft delete the item and everything below it that is still live. All
+    // rows share one deleted_at so restore can bring back exactly this batch.
+    const descendants = file.is_folder ? await getDescendants(fileId) : [];
+    const ids = [fileId, ...descendants.filter((d) => !d.is_deleted).map((d) => d.id)];
+
+    await updateFilesByIds(ids, { is_deleted: true, deleted_at: new Date().toISOString() });
+
+    // Emit real-time deletion event to everyone with access
+    await broadcastFileEvent(req.app.get("io"), {
+      fileId,
+      actorId: userId,
+      event: "file:deleted",
+      payload: { id: fileId, soft: true, ids },
+      subtreeIds: ids,
+      notification: { type: "file_deleted", data: { name: file.name, soft: true } },
+    });
 
     return res.json({ message: "File moved to trash" });
   } catch (error) {
@@ -358,17 +298,15 @@ router.delete("/:id", authMiddleware, async (req: Request, res: Response) => {
 // ------------------------------
 // Restore file from trash
 // ------------------------------
-router.post("/:id/restore", authMiddleware, async (req: Request, res: Response) => {
+router.post("/:id/restore", authMiddleware, requireScope("files:write"), requireFileAccess("delete"), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId as string;
     const fileId = req.params.id;
 
-    // Verify ownership
     const { data: file, error: fetchError } = await supabase
       .from("files")
-      .select("id, user_id, is_deleted")
+      .select("id, user_id, parent_id, is_folder, is_deleted, deleted_at")
       .eq("id", fileId)
-      .eq("user_id", userId)
       .single();
 
     if (fetchError || !file) {
@@ -379,15 +317,38 @@ router.post("/:id/restore", authMiddleware, async (req: Request, res: Response)
       return res.status(409).json({ error: "File is not in trash" });
     }
 
-    const { error: dbError } = await supabase
-      .from("files")
-      .update({ is_deleted: false, deleted_at: null })
-      .eq("id", fileId);
+    // Restore descendants trashed together with this item (same deleted_at);
+    // anything trashed separately before stays in the trash
+    const descendants = file.is_folder ? await getDescendants(fileId) : [];
+    const ids = [
+      fileId,
+      ...descendants.filter((d) => d.is_deleted && d.deleted_at === file.deleted_at).map((d) => d.id),
+    ];
 
-    if (dbError) throw dbError;
+    await updateFilesByIds(ids, { is_deleted: false, deleted_at: null });
 
-    const io = req.app.get("io");
-    io?.to(`user:${userId}`).emit("file:restored", { id: fileId });
+    // If the original parent is still in the trash, restore to the root
+    let parentId = file.parent_id;
+    if (parentId) {
+      const { data: parent } = await supabase
+        .from("files")
+        .select("id, is_deleted")
+        .eq("id", parentId)
+        .maybeSingle();
+      if (!parent || parent.is_deleted) {
+        parentId = null;
+        const { error: mvErr } = await supabase.from("files").update({ parent_id: null }).eq("id", fileId);
+        if (mvErr) throw mvErr;
+      }
+    }
+
+    await broadcastFileEvent(req.app.get("io"), {
+      fileId,
+      actorId: userId,
+      event: "file:restored",
+      payload: { id: fileId, parent_id: parentId, ids },
+      subtreeIds: ids,
+    });
 
     return res.json({ message: "File restored" });
   } catch (error) {
@@ -399,7 +360,7 @@ router.post("/:id/restore", authMiddleware, async (req: Request, res: Response)
 // ------------------------------
 // Permanently delete file (storage + DB)
 // ------------------------------
-router.delete("/:id/permanent", authMiddleware, async (req: Request, res: Response) => {
+router.delete("/:id/permanent", authMiddleware, requireScope("files:write"), requireFileAccess("manage"), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId as string;
     const fileId = req.params.id;
@@ -407,35 +368,60 @@ router.delete("/:id/permanent", authMiddleware, async (req: Request, res: Respon
     // Fetch file
     const { data: file, error: fetchError } = await supabase
       .from("files")
-      .select("id, user_id, path, is_deleted")
+      .select("id, user_id, path, size, is_folder, is_deleted")
       .eq("id", fileId)
-      .eq("user_id", userId)
       .single();
 
     if (fetchError || !file) {
       return res.status(404).json({ error: "File not found" });
     }
 
-    // Remove from storage
-    if (file.path) {
-      const { error: storageError } = await supabase.storage
-        .from("files")
-        .remove([file.path]);
-      if (storageError) {
+    // Collect the whole subtree: every file's current object and stored
+    // versions are removed from storage before the rows are deleted
+    const nodes = [file, ...(file.is_folder ? await getDescendants(fileId) : [])];
+    const paths: string[] = [];
+    let freedBytes = 0;
+    let freedFiles = 0;
+
+    for (const node of nodes) {
+      if (node.is_folder) continue;
+      const footprint = await getFileStorageFootprint(node);
+      paths.push(...footprint.paths, ...thumbnailPaths(node.user_id, node.id));
+      freedBytes += footprint.bytes;
+      freedFiles++;
+    }
+
+    if (paths.length > 0) {
+      try {
+        await objectStorage.delete(paths);
+      } catch (storageError) {
         console.error("Storage deletion error:", storageError);
       }
     }
 
-    // Delete DB row
-    const { error: dbError } = await supabase
-      .from("files")
-      .delete()
-      .eq("id", fileId);
+    // Who to tell, resolved while the shares still exist
+    const ids = nodes.map((n) => n.id);
+    const audience = await getFileAudience(fileId, ids);
 
-    if (dbError) throw dbError;
+    // Delete DB rows (children first so parent_id constraints never trip)
+    for (const batch of chunk(ids.slice().reverse())) {
+      const { error: dbError } = await supabase
+        .from("files")
+        .delete()
+        .in("id", batch);
 
-    const io = req.app.get("io");
-    io?.to(`user:${userId}`).emit("file:deleted", { id: fileId, soft: false });
+      if (dbError) throw dbError;
+    }
+
+    await adjustQuotaUsage(file.user_id, { storage: -freedBytes, files: -freedFiles });
+
+    await broadcastFileEvent(req.app.get("io"), {
+      fileId,
+      actorId: userId,
+      event: "file:deleted",
+      payload: { id: fileId, soft: false, ids },
+      audience,
+    });
 
     return res.json({ message: "File permanently deleted" });
   } catch (error) {
@@ -450,15 +436,12 @@ router.delete("/:id/permanent", authMiddleware, async (req: Request, res: Respon
 router.get(
   "/:id/download",
   authMiddleware,
+  requireScope("files:read"),
+  requireFileAccess("download"),
   async (req: Request, res: Response) => {
     try {
-      const userId = (req as any).userId as string;
       const fileId = req.params.id;
 
-      // Check permissions (owner or shared)
-      const perm = await hasFilePermission(userId, fileId, "view");
-      if (!perm.allowed) return res.status(403).json({ error: "Access denied" });
-
       const { data: file, error } = await supabase
         .from("files")
         .select("*")
@@ -471,14 +454,10 @@ router.get(
       }
 
       // Get signed URL for secure download
-      const { data: signedUrl, error: urlError } = await supabase.storage
-        .from("files")
-        .createSignedUrl(file.path, 3600); // 1 hour expiry
-
-      if (urlError) throw urlError;
+      const downloadUrl = await objectStorage.getSignedUrl(file.path, 3600); // 1 hour expiry
 
       return res.json({
-        downloadUrl: signedUrl?.signedUrl,
+        downloadUrl,
         file: {
           id: file.id,
           name: file.name,
@@ -493,6 +472,172 @@ router.get(
   }
 );
 
+// ------------------------------
+// Thumbnail / preview (signed URL) - same access as download
+// ------------------------------
+router.get("/:id/thumbnail", authMiddleware, requireScope("files:read"), requireFileAccess("read"), async (req: Request, res: Response) => {
+  try {
+    const fileId = req.params.id;
+    const size = String(req.query.size ?? "medium") as ThumbnailSize;
+
+    if (!(size in THUMBNAIL_SIZES)) {
+      return res.status(400).json({ error: `Invalid size. Must be one of: ${Object.keys(THUMBNAIL_SIZES).join(", ")}` });
+    }
+
+    const { data: file, error } = await supabase
+      .from("files")
+      .select("id, user_id, mime_type, type, thumbnail_status")
+      .eq("id", fileId)
+      .eq("is_deleted", false)
+      .single();
+
+    if (error || !file) {
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    if (file.thumbnail_status !== "ready") {
+      if (file.thumbnail_status === "pending") {
+        return res.status(202).json({ status: "pending" });
+      }
+      if (!supportsThumbnail(file.mime_type || file.type)) {
+        return res.status(404).json({ error: "No thumbnail available for this file type", status: "unsupported" });
+      }
+      return res.status(404).json({ error: "Thumbnail not available", status: file.thumbnail_status ?? null });
+    }
+
+    const thumbnailUrl = await objectStorage.getSignedUrl(thumbnailPath(file.user_id, fileId, size), 3600);
+
+    return res.json({ thumbnailUrl, size, width: THUMBNAIL_SIZES[size], status: "ready" });
+  } catch (error) {
+    console.error("Get thumbnail error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Download folder or multi-selection as a streamed ZIP
+// ------------------------------
+const MAX_ZIP_SELECTION = 500;
+
+async function sendZip(req: Request, res: Response, fileIds: string[], archiveName?: string) {
+  const userId = (req as any).userId as string;
+
+  for (const id of fileIds) {
+    const access = await authorizeFile(userId, id, "download");
+    if (!access.allowed) {
+      return access.role
+        ? res.status(403).json({ error: "Insufficient permissions", id })
+        : res.status(404).json({ error: "File not found", id });
+    }
+  }
+
+  const roots = (await loadZipRoots(fileIds)).filter((f) => !f.is_deleted);
+  if (roots.length === 0) {
+    return res.status(404).json({ error: "File not found" });
+  }
+
+  const entries = await collectZipEntries(roots);
+  const name = archiveName || (roots.length === 1 ? roots[0].name : `download-${Date.now()}`);
+  await streamZip(res, name, entries);
+}
+
+router.get("/:id/zip", authMiddleware, requireScope("files:read"), async (req: Request, res: Response) => {
+  try {
+    await sendZip(req, res, [req.params.id]);
+  } catch (error) {
+    console.error("ZIP download error:", error);
+    if (res.headersSent) return res.destroy();
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/zip", authMiddleware, requireScope("files:read"), async (req: Request, res: Response) => {
+  try {
+    const { ids, name } = req.body as { ids?: string[]; name?: string };
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ error: "ids must be a non-empty array" });
+    }
+    if (ids.length > MAX_ZIP_SELECTION) {
+      return res.status(400).json({ error: `At most ${MAX_ZIP_SELECTION} items can be downloaded at once` });
+    }
+
+    await sendZip(req, res, Array.from(new Set(ids.map(String))), name);
+  } catch (error) {
+    console.error("ZIP download error:", error);
+    if (res.headersSent) return res.destroy();
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Copy file or folder (server-side) into the caller's drive
+// ------------------------------
+router.post("/:id/copy", authMiddleware, requireScope("files:write"), requireFileAccess("download"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const fileId = req.params.id;
+    const { parentId, name } = req.body as { parentId?: string | null; name?: string };
+
+    const { data: source, error: srcErr } = await supabase
+      .from("files")
+      .select("*")
+      .eq("id", fileId)
+      .eq("is_deleted", false)
+      .single();
+    if (srcErr || !source) {
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    // Copies always land in the caller's own drive
+    const targetParentId = parentId || null;
+    if (targetParentId) {
+      const { data: target, error: tErr } = await supabase
+        .from("files")
+        .select("id, is_folder, is_deleted")
+        .eq("id", targetParentId)
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (tErr) throw tErr;
+      if (!target || !target.is_folder || target.is_deleted) {
+        return res.status(400).json({ error: "Target folder not found" });
+      }
+    }
+
+    let newName = typeof name === "string" && name.trim() ? name.trim() : source.name;
+    if (!name && source.user_id === userId && (source.parent_id ?? null) === targetParentId) {
+      newName = `Copy of ${source.name}`;
+    }
+
+    const plan = await planCopy(source);
+
+    // Enforce quota limits for everything the copy creates
+    const quotaCheck = await enforceQuotaOnUpload(userId, plan.bytes, plan.files);
+    if (!quotaCheck.allowed) {
+      return res.status(403).json({ error: quotaCheck.reason, code: quotaCheck.code });
+    }
+
+    const { root, ids } = await executeCopy(plan, userId, targetParentId, newName);
+
+    const io = req.app.get("io");
+    io?.to(`user:${userId}`).emit(root.is_folder ? "folder:created" : "file:created", {
+      id: root.id,
+      name: root.name,
+      size: root.size,
+      type: root.type,
+      parent_id: root.parent_id,
+      created_at: root.created_at,
+      copied_from: fileId,
+      ids,
+    });
+
+    return res.json({ message: root.is_folder ? "Folder copied" : "File copied", file: root, count: ids.length });
+  } catch (error) {
+    console.error("Copy file error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // ------------------------------
 // File versioning
 // ------------------------------
@@ -500,7 +645,9 @@ router.get(
 router.post(
   "/:id/versions",
   authMiddleware,
+  requireScope("files:write"),
   upload.single("file"),
+  requireFileAccess("version"),
   async (req: Request, res: Response) => {
     try {
       const userId = (req as any).userId as string;
@@ -511,12 +658,10 @@ router.post(
         return res.status(400).json({ error: "No file uploaded" });
       }
 
-      // Verify file ownership and not deleted
       const { data: file, error: fileErr } = await supabase
         .from("files")
-        .select("id, user_id")
+        .select("id, user_id, path, size")
         .eq("id", fileId)
-        .eq("user_id", userId)
         .eq("is_deleted", false)
         .single();
 
@@ -524,18 +669,18 @@ router.post(
         return res.status(404).json({ error: "File not found" });
       }
 
+      // Versions are stored and charged as the owner's, whoever uploads them
+      const quotaCheck = await enforceQuotaOnUpload(file.user_id, fileBlob.size, 0);
+      if (!quotaCheck.allowed) {
+        return res.status(403).json({ error: quotaCheck.reason, code: quotaCheck.code });
+      }
+
       // Upload version blob
       const ext = getFileExt(fileBlob.originalname) || undefined;
       const versionName = `${Date.now()}-${Math.random().toString(36).substring(2)}${ext ? "." + ext : ""}`;
-      const versionPath = `${userId}/versions/${fileId}/${versionName}`;
+      const versionPath = `${file.user_id}/versions/${fileId}/${versionName}`;
 
-      const { error: upErr } = await supabase.storage
-        .from("files")
-        .upload(versionPath, fileBlob.buffer, {
-          contentType: fileBlob.mimetype,
-          upsert: false,
-        });
-      if (upErr) throw upErr;
+      await objectStorage.put(versionPath, fileBlob.buffer, { contentType: fileBlob.mimetype });
 
       // Determine next version number
       const { data: lastVersion, error: lvErr } = await supabase
@@ -546,7 +691,26 @@ router.post(
         .limit(1)
         .maybeSingle();
 
-      const nextVersion = (lastVersion?.version_number ?? 0) + 1;
+      let nextVersion = (lastVersion?.version_number ?? 0) + 1;
+
+      // First new version: record the originally uploaded object as version 1
+      // so it stays restorable and its storage is accounted for
+      if (!lastVersion && file.path) {
+        const { error: initErr } = await supabase
+          .from("file_versions")
+          .insert([
+            {
+              file_id: fileId,
+              version_number: 1,
+              size: file.size,
+              path: file.path,
+              change_type: "initial",
+              created_by: file.user_id,
+            },
+          ]);
+        if (initErr) throw initErr;
+        nextVersion = 2;
+      }
 
       // Insert version record
       const { data: version, error: verErr } = await supabase
@@ -578,8 +742,18 @@ router.post(
         .eq("id", fileId);
       if (updErr) throw updErr;
 
-      const io = req.app.get("io");
-      io?.to(`user:${userId}`).emit("file:updated", { id: fileId, version: version.version_number });
+      // The new blob is an extra stored object; the file count is unchanged
+      await adjustQuotaUsage(file.user_id, { storage: fileBlob.size, files: 0 });
+
+      scheduleFileProcessing({ id: fileId, mime_type: fileBlob.mimetype });
+
+      await broadcastFileEvent(req.app.get("io"), {
+        fileId,
+        actorId: userId,
+        event: "file:updated",
+        payload: { id: fileId, version: version.version_number },
+        notification: { type: "file_version", data: { version_number: version.version_number } },
+      });
 
       return res.json({ message: "New version created", version });
     } catch (error) {
@@ -593,23 +767,13 @@ router.post(
 router.get(
   "/:id/versions",
   authMiddleware,
+  requireScope("files:read"),
+  requireFileAccess("version"),
   async (req: Request, res: Response) => {
     try {
       const userId = (req as any).userId as string;
       const fileId = req.params.id;
 
-      // Verify ownership
-      const { data: file, error: fileErr } = await supabase
-        .from("files")
-        .select("id")
-        .eq("id", fileId)
-        .eq("user_id", userId)
-        .single();
-
-      if (fileErr || !file) {
-        return res.status(404).json({ error: "File not found" });
-      }
-
       const { data: versions, error } = await supabase
         .from("file_versions")
         .select("id, version_number, size, path, change_type, created_by, created_at")
@@ -630,6 +794,8 @@ router.get(
 router.post(
   "/:id/versions/:versionNumber/restore",
   authMiddleware,
+  requireScope("files:write"),
+  requireFileAccess("version"),
   async (req: Request, res: Response) => {
     try {
       const userId = (req as any).userId as string;
@@ -640,12 +806,10 @@ router.post(
         return res.status(400).json({ error: "Invalid version number" });
       }
 
-      // Verify ownership
       const { data: file, error: fileErr } = await supabase
         .from("files")
-        .select("id")
+        .select("id, mime_type, type")
         .eq("id", fileId)
-        .eq("user_id", userId)
         .single();
       if (fileErr || !file) {
         return res.status(404).json({ error: "File not found" });
@@ -693,8 +857,15 @@ router.post(
         ]);
       if (recErr) throw recErr;
 
-      const io = req.app.get("io");
-      io?.to(`user:${userId}`).emit("file:updated", { id: fileId, restoredFrom: versionNumber });
+      scheduleFileProcessing(file);
+
+      await broadcastFileEvent(req.app.get("io"), {
+        fileId,
+        actorId: userId,
+        event: "file:updated",
+        payload: { id: fileId, restoredFrom: versionNumber },
+        notification: { type: "file_version", data: { restored_from: versionNumber } },
+      });
 
       return res.json({ message: "File restored to selected version" });
     } catch (error) {
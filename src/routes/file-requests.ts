@@ -0,0 +1,334 @@
+// src/routes/file-requests.ts
+//
+// File request links: an owner creates a link bound to one of their folders
+// and people without an account upload into it. Visitors only ever see the
+// request's title, message and limits, never the folder's contents. Uploads
+// are stored as the owner's files and count against the owner's quota.
+import { Router, Request, Response, NextFunction } from "express";
+import multer from "multer";
+import crypto from "crypto";
+import { supabase } from "../lib/supabase";
+import { storage } from "../lib/storage";
+import { authMiddleware } from "../middlewares/auth-middleware";
+import { requireScope } from "../middlewares/scope-middleware";
+import { requireFileAccess } from "../middlewares/policy-middleware";
+import { rateLimit } from "../middlewares/rate-limit-middleware";
+import { enforceQuotaOnUpload } from "../utils/quota";
+import { generateStorageFileName, recordUploadedFile } from "../utils/uploads";
+import { getFileExt } from "../utils/helpers";
+import { notifyUsers } from "../utils/notifications";
+
+const router = Router();
+
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024; // same cap as /api/files/upload
+
+const OWNER_COLUMNS =
+  "id, folder_id, token, title, message, max_file_size, max_files, allowed_types, expires_at, upload_count, is_active, created_at, updated_at";
+
+// ------------------------------
+// Helpers
+// ------------------------------
+
+// allowed_types entries: exact MIME type ("application/pdf"), MIME family
+// ("image/*") or extension (".docx")
+function isTypeAllowed(allowed: string[] | null, mimeType: string, fileName: string): boolean {
+  if (!allowed || allowed.length === 0) return true;
+  const ext = (getFileExt(fileName) || "").toLowerCase();
+  const mime = (mimeType || "").toLowerCase();
+  return allowed.some((rule) => {
+    const r = rule.toLowerCase();
+    if (r.startsWith(".")) return ext === r.slice(1);
+    if (r.endsWith("/*")) return mime.startsWith(r.slice(0, -1));
+    return mime === r;
+  });
+}
+
+function parseRequestOptions(body: Record<string, any>, creating: boolean): { update: Record<string, any> } | { error: string } {
+  const update: Record<string, any> = {};
+
+  if (body.title !== undefined || creating) {
+    if (typeof body.title !== "string" || !body.title.trim()) return { error: "Title is required" };
+    update.title = body.title.trim().slice(0, 200);
+  }
+  if (body.message !== undefined) {
+    update.message = body.message ? String(body.message).slice(0, 2000) : null;
+  }
+  if (body.maxFileSize !== undefined) {
+    if (body.maxFileSize !== null && (!Number.isInteger(body.maxFileSize) || body.maxFileSize < 1)) {
+      return { error: "maxFileSize must be a positive number of bytes" };
+    }
+    update.max_file_size = body.maxFileSize === null ? null : Math.min(body.maxFileSize, MAX_UPLOAD_BYTES);
+  }
+  if (body.maxFiles !== undefined) {
+    if (body.maxFiles !== null && (!Number.isInteger(body.maxFiles) || body.maxFiles < 1)) {
+      return { error: "maxFiles must be a positive integer" };
+    }
+    update.max_files = body.maxFiles;
+  }
+  if (body.allowedTypes !== undefined) {
+    if (body.allowedTypes !== null && (!Array.isArray(body.allowedTypes) || body.allowedTypes.some((t: any) => typeof t !== "string"))) {
+      return { error: "allowedTypes must be a list of MIME types (image/*, application/pdf) or extensions (.docx)" };
+    }
+    update.allowed_types = body.allowedTypes?.length ? body.allowedTypes.map((t: string) => t.trim()).filter(Boolean) : null;
+  }
+  if (body.expiresAt !== undefined) {
+    if (body.expiresAt === null || body.expiresAt === "") {
+      update.expires_at = null;
+    } else {
+      const date = new Date(String(body.expiresAt));
+      if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) return { error: "expiresAt must be a future date" };
+      update.expires_at = date.toISOString();
+    }
+  }
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== "boolean") return { error: "isActive must be a boolean" };
+    update.is_active = body.isActive;
+  }
+
+  return { update };
+}
+
+// Look up an open request by token
+async function resolveFileRequest(token: string) {
+  const { data: request, error } = await supabase
+    .from("file_requests")
+    .select(`${OWNER_COLUMNS}, user_id, files!file_requests_folder_id_fkey ( id, is_deleted ), profiles ( first_name, last_name, email )`)
+    .eq("token", token)
+    .maybeSingle();
+  if (error) throw error;
+
+  const folder = request?.files as any;
+  if (!request || !request.is_active || !folder || folder.is_deleted) {
+    return { ok: false, status: 404, error: "File request not found" } as const;
+  }
+  if (request.expires_at && new Date(request.expires_at) < new Date()) {
+    return { ok: false, status: 410, error: "File request expired" } as const;
+  }
+  if (request.max_files != null && request.upload_count >= request.max_files) {
+    return { ok: false, status: 410, error: "File request is full" } as const;
+  }
+  return { ok: true, request } as const;
+}
+
+// ------------------------------
+// Owner endpoints
+// ------------------------------
+// Uploads are charged to the owner, so only the owner may open a folder to them
+const canManageFolder = requireFileAccess("manage", { body: "folderId", notFound: "Folder not found" });
+
+router.post("/", authMiddleware, requireScope("shares:manage"), canManageFolder, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { folderId } = req.body as { folderId?: string };
+
+    const options = parseRequestOptions(req.body ?? {}, true);
+    if ("error" in options) return res.status(400).json({ error: options.error });
+
+    const { data: folder, error: fErr } = await supabase
+      .from("files")
+      .select("id, is_folder, is_deleted")
+      .eq("id", folderId)
+      .maybeSingle();
+    if (fErr) throw fErr;
+    if (!folder || !folder.is_folder || folder.is_deleted) {
+      return res.status(404).json({ error: "Folder not found" });
+    }
+
+    const { data: request, error } = await supabase
+      .from("file_requests")
+      .insert({
+        user_id: userId,
+        folder_id: folderId,
+        token: crypto.randomBytes(24).toString("hex"),
+        ...options.update,
+      })
+      .select(OWNER_COLUMNS)
+      .single();
+    if (error) throw error;
+
+    return res.status(201).json({ message: "File request created", request });
+  } catch (error) {
+    console.error("Create file request error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/", authMiddleware, requireScope("shares:manage"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    let select = supabase.from("file_requests").select(OWNER_COLUMNS).eq("user_id", userId);
+    if (req.query.folderId) select = select.eq("folder_id", String(req.query.folderId));
+
+    const { data: requests, error } = await select.order("created_at", { ascending: false });
+    if (error) throw error;
+    return res.json({ requests: requests ?? [] });
+  } catch (error) {
+    console.error("List file requests error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.patch("/:id", authMiddleware, requireScope("shares:manage"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+
+    const options = parseRequestOptions(req.body ?? {}, false);
+    if ("error" in options) return res.status(400).json({ error: options.error });
+    if (Object.keys(options.update).length === 0) return res.status(400).json({ error: "Nothing to update" });
+
+    const { data: request, error } = await supabase
+      .from("file_requests")
+      .update({ ...options.update, updated_at: new Date().toISOString() })
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .select(OWNER_COLUMNS)
+      .maybeSingle();
+    if (error) throw error;
+    if (!request) return res.status(404).json({ error: "File request not found" });
+
+    return res.json({ message: "File request updated", request });
+  } catch (error) {
+    console.error("Update file request error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Delete the link; files already received stay in the folder
+router.delete("/:id", authMiddleware, requireScope("shares:manage"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { data, error } = await supabase
+      .from("file_requests")
+      .delete()
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .select("id")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "File request not found" });
+    return res.json({ message: "File request deleted" });
+  } catch (error) {
+    console.error("Delete file request error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Public endpoints (no auth)
+// ------------------------------
+
+// What the upload page shows: never the folder contents
+router.get("/public/:token", rateLimit("public"), async (req: Request, res: Response) => {
+  try {
+    const resolved = await resolveFileRequest(req.params.token);
+    if (!resolved.ok) return res.status(resolved.status).json({ error: resolved.error });
+    const { request } = resolved;
+    const owner = request.profiles as any;
+
+    return res.json({
+      request: {
+        title: request.title,
+        message: request.message,
+        owner: [owner?.first_name, owner?.last_name].filter(Boolean).join(" ") || owner?.email || null,
+        maxFileSize: request.max_file_size ?? MAX_UPLOAD_BYTES,
+        allowedTypes: request.allowed_types ?? [],
+        remainingFiles: request.max_files != null ? Math.max(0, request.max_files - request.upload_count) : null,
+        expiresAt: request.expires_at,
+      },
+    });
+  } catch (error) {
+    console.error("Resolve file request error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Resolve the link before reading the body, so only a valid request can make
+// the server buffer a file, and never more than that request accepts
+async function receiveRequestUpload(req: Request, res: Response, next: NextFunction) {
+  try {
+    const resolved = await resolveFileRequest(req.params.token);
+    if (!resolved.ok) {
+      res.status(resolved.status).json({ error: resolved.error });
+      return;
+    }
+    res.locals.fileRequest = resolved.request;
+
+    const maxBytes = Math.min(resolved.request.max_file_size ?? MAX_UPLOAD_BYTES, MAX_UPLOAD_BYTES);
+    const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: maxBytes } });
+    upload.single("file")(req, res, (err: any) => {
+      // Oversized uploads are the visitor's mistake, not a server error
+      if (err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({ error: `File is larger than the ${maxBytes} byte limit` });
+      }
+      next(err);
+    });
+  } catch (error) {
+    console.error("File request upload error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+router.post("/public/:token/upload", rateLimit("public"), receiveRequestUpload, async (req: Request, res: Response) => {
+  let claimedRequestId: string | null = null;
+  let storedPath: string | null = null;
+  try {
+    const file = req.file;
+    if (!file) return res.status(400).json({ error: "No file uploaded" });
+
+    const request = res.locals.fileRequest;
+    const ownerId = request.user_id as string;
+    if (!isTypeAllowed(request.allowed_types, file.mimetype, file.originalname)) {
+      return res.status(415).json({ error: "This file type is not accepted by this request" });
+    }
+
+    // The owner's plan limits apply; don't reveal their usage to the visitor
+    const quotaCheck = await enforceQuotaOnUpload(ownerId, file.size);
+    if (!quotaCheck.allowed) {
+      return res.status(403).json({ error: "The recipient does not have enough storage space", code: quotaCheck.code });
+    }
+
+    // Reserve one of max_files atomically so parallel uploads cannot overshoot
+    const { data: claimed, error: claimErr } = await supabase.rpc("claim_file_request_upload", {
+      p_request_id: request.id,
+    });
+    if (claimErr) throw claimErr;
+    if (claimed !== true) return res.status(410).json({ error: "File request is full" });
+    claimedRequestId = request.id;
+
+    const uploadData = await storage.put(`${ownerId}/${generateStorageFileName(file.originalname)}`, file.buffer, {
+      contentType: file.mimetype,
+    });
+    storedPath = uploadData.path;
+
+    const io = req.app.get("io");
+    const fileData = await recordUploadedFile(io, {
+      userId: ownerId,
+      originalName: file.originalname,
+      size: file.size,
+      mimeType: file.mimetype,
+      path: uploadData.path,
+      parentId: request.folder_id,
+    });
+    claimedRequestId = null;
+    storedPath = null;
+
+    await notifyUsers(io, [ownerId], {
+      type: "file_request_upload",
+      fileId: fileData.id,
+      data: { request_id: request.id, title: request.title, name: fileData.name, size: fileData.size },
+    });
+
+    return res.status(201).json({ message: "File uploaded", file: { name: fileData.name, size: fileData.size } });
+  } catch (error) {
+    console.error("File request upload error:", error);
+    if (storedPath) {
+      await storage.delete([storedPath]).catch((err: any) => console.error("Orphaned upload cleanup error:", err?.message || err));
+    }
+    if (claimedRequestId) {
+      await supabase.rpc("release_file_request_upload", { p_request_id: claimedRequestId });
+    }
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
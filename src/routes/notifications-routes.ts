@@ -0,0 +1,130 @@
+// src/routes/notifications-routes.ts
+import { Router, Request, Response } from "express";
+import { supabase } from "../lib/supabase";
+import { authMiddleware } from "../middlewares/auth-middleware";
+import { requireScope } from "../middlewares/scope-middleware";
+import { InvalidCursorError, applyKeyset, nextKeysetCursor, parsePageRequest } from "../utils/pagination";
+
+const router = Router();
+
+const COLUMNS = "id, type, actor_id, file_id, data, read_at, created_at";
+
+// Notifications are about files: tokens read them with files:read and mark or
+// delete them with files:write
+router.use(authMiddleware);
+
+async function countUnread(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from("notifications")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("read_at", null);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// List notifications, newest first (?unread=true for unread only)
+router.get("/", requireScope("files:read"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { page, limit, cursor } = parsePageRequest(req.query as Record<string, any>);
+    const unreadOnly = String(req.query.unread ?? "false").toLowerCase() === "true";
+
+    let select: any = supabase.from("notifications").select(COLUMNS, { count: "exact" }).eq("user_id", userId);
+    if (unreadOnly) select = select.is("read_at", null);
+
+    const unread = await countUnread(userId);
+
+    if (cursor !== undefined) {
+      const { data: notifications, error, count } = await applyKeyset(select, "created_at", false, cursor).limit(limit);
+      if (error) throw error;
+      const nextCursor = nextKeysetCursor(notifications, "created_at", limit);
+      return res.json({ notifications, unread, limit, nextCursor, total: count ?? notifications?.length ?? 0 });
+    }
+
+    const from = (page - 1) * limit;
+    const { data: notifications, error, count } = await select
+      .order("created_at", { ascending: false })
+      .range(from, from + limit - 1);
+    if (error) throw error;
+
+    return res.json({ notifications, unread, page, limit, total: count ?? notifications?.length ?? 0 });
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("List notifications error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/unread-count", requireScope("files:read"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    return res.json({ unread: await countUnread(userId) });
+  } catch (error) {
+    console.error("Unread notifications count error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Mark every notification as read
+router.post("/read-all", requireScope("files:write"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .is("read_at", null);
+    if (error) throw error;
+    return res.json({ message: "All notifications marked as read", unread: 0 });
+  } catch (error) {
+    console.error("Mark all notifications read error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Mark one notification as read or unread ({ read: false } to undo)
+router.patch("/:id", requireScope("files:write"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { read = true } = (req.body ?? {}) as { read?: boolean };
+
+    const { data: notification, error } = await supabase
+      .from("notifications")
+      .update({ read_at: read ? new Date().toISOString() : null })
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .select(COLUMNS)
+      .maybeSingle();
+    if (error) throw error;
+    if (!notification) return res.status(404).json({ error: "Notification not found" });
+
+    return res.json({ notification, unread: await countUnread(userId) });
+  } catch (error) {
+    console.error("Update notification error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.delete("/:id", requireScope("files:write"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { data, error } = await supabase
+      .from("notifications")
+      .delete()
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .select("id")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "Notification not found" });
+    return res.json({ message: "Notification deleted" });
+  } catch (error) {
+    console.error("Delete notification error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
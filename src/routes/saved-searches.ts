@@ -0,0 +1,175 @@
+// src/routes/saved-searches.ts
+//
+// Named file filters a user can re-run. `filters` holds the normalised
+// output of parseFileFilters, so anything GET /api/files accepts can be saved.
+import { Router, Request, Response } from "express";
+import { supabase } from "../lib/supabase";
+import { authMiddleware } from "../middlewares/auth-middleware";
+import { requireScope } from "../middlewares/scope-middleware";
+import { FileQueryError, parseFileFilters, queryFiles } from "../utils/file-query";
+import { InvalidCursorError, parsePageRequest } from "../utils/pagination";
+
+const router = Router();
+
+const MAX_SAVED_SEARCHES = 100;
+const COLUMNS = "id, name, filters, created_at, updated_at";
+
+router.use(authMiddleware);
+
+function handleError(res: Response, label: string, error: unknown) {
+  if (error instanceof FileQueryError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  if (error instanceof InvalidCursorError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${label} error:`, error);
+  return res.status(500).json({ error: "Internal server error" });
+}
+
+// List saved searches
+router.get("/", requireScope("files:read"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select(COLUMNS)
+      .eq("user_id", userId)
+      .order("name", { ascending: true });
+    if (error) throw error;
+    return res.json({ searches: data ?? [] });
+  } catch (error) {
+    return handleError(res, "List saved searches", error);
+  }
+});
+
+// Create a saved search
+router.post("/", requireScope("files:write"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { name, filters } = (req.body ?? {}) as { name?: string; filters?: Record<string, any> };
+
+    if (!name || !name.trim()) {
+      return res.status(400).json({ error: "Name is required" });
+    }
+    if (!filters || typeof filters !== "object") {
+      return res.status(400).json({ error: "Filters are required" });
+    }
+
+    const { count } = await supabase
+      .from("saved_searches")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId);
+    if ((count ?? 0) >= MAX_SAVED_SEARCHES) {
+      return res.status(400).json({ error: `You can keep at most ${MAX_SAVED_SEARCHES} saved searches` });
+    }
+
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .insert({ user_id: userId, name: name.trim(), filters: parseFileFilters(filters) })
+      .select(COLUMNS)
+      .single();
+    if (error) throw error;
+
+    return res.status(201).json({ search: data });
+  } catch (error) {
+    return handleError(res, "Create saved search", error);
+  }
+});
+
+// Get a saved search
+router.get("/:id", requireScope("files:read"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select(COLUMNS)
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "Saved search not found" });
+    return res.json({ search: data });
+  } catch (error) {
+    return handleError(res, "Get saved search", error);
+  }
+});
+
+// Rename and/or replace the filters of a saved search
+router.patch("/:id", requireScope("files:write"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { name, filters } = (req.body ?? {}) as { name?: string; filters?: Record<string, any> };
+
+    const update: Record<string, any> = { updated_at: new Date().toISOString() };
+    if (name !== undefined) {
+      if (!name.trim()) return res.status(400).json({ error: "Name cannot be empty" });
+      update.name = name.trim();
+    }
+    if (filters !== undefined) {
+      if (!filters || typeof filters !== "object") return res.status(400).json({ error: "Invalid filters" });
+      update.filters = parseFileFilters(filters);
+    }
+
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .update(update)
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .select(COLUMNS)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "Saved search not found" });
+
+    return res.json({ search: data });
+  } catch (error) {
+    return handleError(res, "Update saved search", error);
+  }
+});
+
+// Delete a saved search
+router.delete("/:id", requireScope("files:write"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .delete()
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .select("id")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "Saved search not found" });
+    return res.json({ message: "Saved search deleted" });
+  } catch (error) {
+    return handleError(res, "Delete saved search", error);
+  }
+});
+
+// Run a saved search. page/limit/cursor/sortBy/sortOrder in the query string override the stored values.
+router.get("/:id/results", requireScope("files:read"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { data: saved, error } = await supabase
+      .from("saved_searches")
+      .select("filters")
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!saved) return res.status(404).json({ error: "Saved search not found" });
+
+    const pageRequest = parsePageRequest(req.query as Record<string, any>);
+    const filters = parseFileFilters({
+      ...(saved.filters ?? {}),
+      ...(req.query.sortBy ? { sortBy: req.query.sortBy } : {}),
+      ...(req.query.sortOrder ? { sortOrder: req.query.sortOrder } : {}),
+    });
+
+    return res.json(await queryFiles(userId, filters, pageRequest));
+  } catch (error) {
+    return handleError(res, "Run saved search", error);
+  }
+});
+
+export default router;
@@ -0,0 +1,65 @@
+// src/routes/search-routes.ts
+import { Router, Request, Response } from "express";
+import { supabase } from "../lib/supabase";
+import { authMiddleware } from "../middlewares/auth-middleware";
+import { requireScope } from "../middlewares/scope-middleware";
+
+const router = Router();
+
+// search_files() wraps matches in these markers; they are turned into
+// <mark> tags after the document text itself has been HTML-escaped
+const HL_START = "⟦";
+const HL_STOP = "⟧";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function renderSnippet(raw: string | null): string {
+  if (!raw) return "";
+  return escapeHtml(raw).split(HL_START).join("<mark>").split(HL_STOP).join("</mark>");
+}
+
+// ------------------------------
+// Full-text search over names and document contents
+// ------------------------------
+// Covers the caller's own files and files shared with them.
+router.get("/", authMiddleware, requireScope("files:read"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const q = String(req.query.q ?? "").trim();
+    const page = Math.max(1, parseInt(String(req.query.page ?? "1"), 10));
+    const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit ?? "20"), 10)));
+
+    if (q.length < 2) {
+      return res.status(400).json({ error: "Query must be at least 2 characters" });
+    }
+
+    const { data, error } = await supabase.rpc("search_files", {
+      p_user_id: userId,
+      p_query: q,
+      p_limit: limit,
+      p_offset: (page - 1) * limit,
+    });
+    if (error) throw error;
+
+    const rows = (data ?? []) as any[];
+    const results = rows.map(({ total, snippet, ...file }) => ({
+      ...file,
+      owned: file.user_id === userId,
+      snippet: renderSnippet(snippet),
+    }));
+
+    return res.json({ results, page, limit, total: Number(rows[0]?.total ?? 0) });
+  } catch (error) {
+    console.error("Search error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -1,115 +1,112 @@
 // src/routes/share-operations.ts
 import { Router, Request, Response } from "express";
 import { supabase } from "../lib/supabase";
-import { authMiddleware } from "../middlewares/auth-middleware";
+import { storage } from "../lib/storage";
+import { authMiddleware, requireVerifiedEmail } from "../middlewares/auth-middleware";
+import { requireScope } from "../middlewares/scope-middleware";
 import crypto from "crypto";
+import { collectZipEntries, streamZip } from "../utils/zip";
+import { InvalidCursorError, applyKeyset, nextKeysetCursor, parsePageRequest } from "../utils/pagination";
+import { FileQueryError, parseFileFilters, queryFiles } from "../utils/file-query";
+import { requireFileAccess } from "../middlewares/policy-middleware";
+import { rateLimit } from "../middlewares/rate-limit-middleware";
+import { thumbnailPath } from "../jobs/thumbnail-worker";
+import { attemptSubject, clearFailedAttempts, guardAttempt, recordFailedAttempt } from "../utils/failed-attempts";
+import { activeShareFilter, getUserIdByEmail } from "../utils/permissions";
+import { authorizeFile, canViaPublicLink } from "../utils/policy";
+import { emitToUsers, notifyUsers } from "../utils/notifications";
+import { SHARE_PERMISSIONS, ShareError, createShare } from "../utils/shares";
+import {
+  PUBLIC_LINK_COLUMNS,
+  issueLinkAccessToken,
+  parsePublicLinkOptions,
+  recordLinkAccess,
+  toPublicLink,
+  verifyLinkAccessToken,
+  verifyLinkPassword,
+} from "../utils/public-links";
 
 const router = Router();
 
+// User shares need "share" on the file, public links "manage" (see utils/policy)
+const canShare = requireFileAccess("share", { param: "fileId" });
+const canManageLinks = requireFileAccess("manage", { param: "fileId" });
+
+// undefined = not given, null = no expiry, false = invalid or in the past
+function parseShareExpiry(value: unknown): string | null | undefined | false {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) return false;
+  return date.toISOString();
+}
+
 /**
- * Share file with another user
+ * Share file with another user. Emails without a verified account get a
+ * pending share and an invite; it activates when the address is verified.
  */
-router.post("/:fileId/share", authMiddleware, async (req: Request, res: Response) => {
+router.post("/:fileId/share", authMiddleware, requireScope("shares:manage"), requireVerifiedEmail, canShare, async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const fileId = req.params.fileId;
-    const { email, permissions = "view" } = req.body;
-
-    if (!email) {
-      return res.status(400).json({ error: "Email is required" });
-    }
-
-    if (!["view", "edit", "admin"].includes(permissions)) {
-      return res.status(400).json({ error: 'Invalid permissions. Must be "view", "edit" or "admin"' });
-    }
-
-    // Verify file ownership
-    const { data: file, error: fileError } = await supabase
-      .from("files")
-      .select("*")
-      .eq("id", fileId)
-      .eq("user_id", userId)
-      .single();
+    const { email, permissions = "view", expiresAt } = req.body;
 
-    if (fileError || !file) {
-      return res.status(404).json({ error: "File not found" });
+    const expiry = parseShareExpiry(expiresAt);
+    if (expiry === false) {
+      return res.status(400).json({ error: "expiresAt must be a future date" });
     }
 
-    // Check if target user exists (using profiles table)
-    const { data: targetUser, error: userError } = await supabase
-      .from("profiles")
-      .select("id")
-      .eq("email", email)
-      .single();
-
-    if (userError || !targetUser) {
-      return res.status(404).json({ error: "User not found" });
-    }
-
-    // Check if already shared
-    const { data: existingShare } = await supabase
-      .from("shares")
-      .select("id")
-      .eq("file_id", fileId)
-      .eq("shared_with_email", email)
-      .maybeSingle();
-
-    if (existingShare) {
-      return res.status(409).json({ error: "File already shared with this user" });
-    }
-
-    // Insert share record (align with DB schema: owner_id)
-    const { data: share, error: shareError } = await supabase
-      .from("shares")
-      .insert([
-        {
-          file_id: fileId,
-          owner_id: userId,
-          shared_with_email: email,
-          permissions,
-        },
-      ])
-      .select()
-      .single();
-
-    if (shareError) throw shareError;
-
-    // Notify owner in real-time
-    const io = req.app.get("io");
-    io?.to(`user:${userId}`).emit("share:created", {
-      id: share.id,
-      file_id: share.file_id,
-      shared_with_email: share.shared_with_email,
-      permissions: share.permissions,
-      created_at: share.created_at,
+    const { share, pending, emailSent } = await createShare(req.app.get("io"), {
+      fileId,
+      actorId: userId,
+      email,
+      permissions,
+      expiresAt: expiry,
     });
 
-    return res.json({
-      message: "File shared successfully",
-      share: {
-        id: share.id,
-        file_id: share.file_id,
-        shared_with_email: share.shared_with_email,
-        permissions: share.permissions,
-        created_at: share.created_at,
-      },
+    return res.status(pending ? 201 : 200).json({
+      message: pending ? "Invitation sent" : "File shared successfully",
+      share,
+      ...(pending ? { emailSent } : {}),
     });
   } catch (error) {
+    if (error instanceof ShareError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error("Share file error:", error);
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
 /**
- * Get files shared *with* me
+ * Get files shared *with* me. With ?folderId= lists the contents of a shared
+ * folder (or any folder below one), since folder shares are inherited.
  */
-router.get("/shared-with-me", authMiddleware, async (req: Request, res: Response) => {
+router.get("/shared-with-me", authMiddleware, requireScope("files:read"), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
-    const page = Math.max(1, parseInt(String(req.query.page ?? "1"), 10));
-    const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit ?? "20"), 10)));
+    const pageRequest = parsePageRequest(req.query as Record<string, any>);
+    const { page, limit, cursor } = pageRequest;
     const search = (req.query.search as string | undefined)?.trim();
 
+    const folderId = req.query.folderId as string | undefined;
+    if (folderId) {
+      const access = await authorizeFile(userId, folderId, "read");
+      const { data: folder } = await supabase
+        .from("files")
+        .select("id, name, parent_id, user_id, is_folder, created_at, updated_at")
+        .eq("id", folderId)
+        .eq("is_deleted", false)
+        .maybeSingle();
+      if (!access.allowed || !folder?.is_folder) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+
+      const filters = parseFileFilters({ ...req.query, parentId: folderId, recursive: undefined });
+      const listing = await queryFiles(userId, filters, pageRequest);
+      return res.json({ folder, permission: access.role, ...listing });
+    }
+
     // Get current user email
     const { data: user, error: userError } = await supabase
       .from("profiles")
@@ -145,7 +142,8 @@ router.get("/shared-with-me", authMiddleware, async (req: Request, res: Response
         { count: "exact" }
       )
       .eq("shared_with_email", user.email)
-      .order("created_at", { ascending: false });
+      .eq("status", "active") // invitations show up once the address is verified
+      .or(activeShareFilter()); // hide expired shares
 
     if (search && search.length > 1) {
       // filter by file name
@@ -153,14 +151,30 @@ router.get("/shared-with-me", authMiddleware, async (req: Request, res: Response
       select = (select as any).or(`files.name.ilike.%${search}%`);
     }
 
+    // Newest first; a cursor keeps paging stable while shares are added
+    if (cursor !== undefined) {
+      const { data: shares, error: sharesError, count } = await applyKeyset(select, "created_at", false, cursor).limit(limit);
+      if (sharesError) throw sharesError;
+      const nextCursor = nextKeysetCursor(shares, "created_at", limit);
+      return res.json({ shares, limit, nextCursor, total: count ?? shares?.length ?? 0 });
+    }
+
     const from = (page - 1) * limit;
     const to = from + limit - 1;
-    const { data: shares, error: sharesError, count } = await select.range(from, to);
+    const { data: shares, error: sharesError, count } = await select
+      .order("created_at", { ascending: false })
+      .range(from, to);
 
     if (sharesError) throw sharesError;
 
     return res.json({ shares, page, limit, total: count ?? shares?.length ?? 0 });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof FileQueryError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error("Get shared-with-me error:", error);
     return res.status(500).json({ error: "Internal server error" });
   }
@@ -169,11 +183,10 @@ router.get("/shared-with-me", authMiddleware, async (req: Request, res: Response
 /**
  * Get files shared *by* me
  */
-router.get("/shared-by-me", authMiddleware, async (req: Request, res: Response) => {
+router.get("/shared-by-me", authMiddleware, requireScope("shares:manage"), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
-    const page = Math.max(1, parseInt(String(req.query.page ?? "1"), 10));
-    const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit ?? "20"), 10)));
+    const { page, limit, cursor } = parsePageRequest(req.query as Record<string, any>);
     const search = (req.query.search as string | undefined)?.trim();
 
     let select = supabase
@@ -184,6 +197,7 @@ router.get("/shared-by-me", authMiddleware, async (req: Request, res: Response)
         shared_with_email,
         permissions,
         share_type,
+        status,
         expires_at,
         created_at,
         files (
@@ -196,8 +210,13 @@ router.get("/shared-by-me", authMiddleware, async (req: Request, res: Response)
       `,
         { count: "exact" }
       )
-      .eq("owner_id", userId)
-      .order("created_at", { ascending: false });
+      .eq("owner_id", userId);
+
+    // ?status=pending lists invitations that have not been accepted yet
+    const status = req.query.status as string | undefined;
+    if (status === "pending" || status === "active") {
+      select = select.eq("status", status);
+    }
 
     if (search && search.length > 1) {
       // filter by file name or email
@@ -205,14 +224,27 @@ router.get("/shared-by-me", authMiddleware, async (req: Request, res: Response)
       select = (select as any).or(`files.name.ilike.%${search}%,shared_with_email.ilike.%${search}%`);
     }
 
+    // Newest first; a cursor keeps paging stable while shares are added
+    if (cursor !== undefined) {
+      const { data: shares, error, count } = await applyKeyset(select, "created_at", false, cursor).limit(limit);
+      if (error) throw error;
+      const nextCursor = nextKeysetCursor(shares, "created_at", limit);
+      return res.json({ shares, limit, nextCursor, total: count ?? shares?.length ?? 0 });
+    }
+
     const from = (page - 1) * limit;
     const to = from + limit - 1;
-    const { data: shares, error, count } = await select.range(from, to);
+    const { data: shares, error, count } = await select
+      .order("created_at", { ascending: false })
+      .range(from, to);
 
     if (error) throw error;
 
     return res.json({ shares, page, limit, total: count ?? shares?.length ?? 0 });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error("Get shared-by-me error:", error);
     return res.status(500).json({ error: "Internal server error" });
   }
@@ -221,18 +253,16 @@ router.get("/shared-by-me", authMiddleware, async (req: Request, res: Response)
 /**
  * Revoke file share
  */
-router.delete("/:fileId/shares/:shareId", authMiddleware, async (req: Request, res: Response) => {
+router.delete("/:fileId/shares/:shareId", authMiddleware, requireScope("shares:manage"), canShare, async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const fileId = req.params.fileId;
     const shareId = req.params.shareId;
 
-    // Verify file ownership
     const { data: file, error: fileError } = await supabase
       .from("files")
-      .select("id")
+      .select("id, user_id, name")
       .eq("id", fileId)
-      .eq("user_id", userId)
       .single();
 
     if (fileError || !file) {
@@ -240,17 +270,35 @@ router.delete("/:fileId/shares/:shareId", authMiddleware, async (req: Request, r
     }
 
     // Delete share
-    const { error: deleteError } = await supabase
+    const { data: share, error: deleteError } = await supabase
       .from("shares")
       .delete()
       .eq("id", shareId)
-      .eq("file_id", fileId);
+      .eq("file_id", fileId)
+      .neq("shared_with_email", "") // public links need "manage" (DELETE /public/:token)
+      .select("id, shared_with_email")
+      .maybeSingle();
 
     if (deleteError) throw deleteError;
+    if (!share) {
+      return res.status(404).json({ error: "Share not found" });
+    }
 
-    // Notify owner in real-time
+    // Notify owner and recipient in real-time
     const io = req.app.get("io");
-    io?.to(`user:${userId}`).emit("share:revoked", { id: shareId, file_id: fileId });
+    const recipientId = await getUserIdByEmail(share.shared_with_email);
+    emitToUsers(io, recipientId ? [userId, file.user_id, recipientId] : [userId, file.user_id], "share:revoked", {
+      id: shareId,
+      file_id: fileId,
+    });
+    if (recipientId) {
+      await notifyUsers(io, [recipientId], {
+        type: "share_revoked",
+        actorId: userId,
+        fileId,
+        data: { share_id: shareId, name: file.name },
+      });
+    }
 
     return res.json({ message: "Share revoked successfully" });
   } catch (error) {
@@ -259,23 +307,89 @@ router.delete("/:fileId/shares/:shareId", authMiddleware, async (req: Request, r
   }
 });
 
-// ------------------------------
-// Public link sharing
-// ------------------------------
-router.post("/:fileId/public", authMiddleware, async (req: Request, res: Response) => {
+/**
+ * Change a user share's permissions and/or expiry (expiresAt: null removes it)
+ */
+router.patch("/:fileId/shares/:shareId", authMiddleware, requireScope("shares:manage"), canShare, async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const fileId = req.params.fileId;
-    const { expiresAt } = req.body as { expiresAt?: string };
+    const shareId = req.params.shareId;
+    const { permissions, expiresAt } = req.body as { permissions?: string; expiresAt?: string | null };
 
-    // Verify ownership
-    const { data: file, error: fErr } = await supabase
+    if (permissions !== undefined && !(SHARE_PERMISSIONS as readonly string[]).includes(permissions)) {
+      return res.status(400).json({ error: 'Invalid permissions. Must be "view", "edit" or "admin"' });
+    }
+    const expiry = parseShareExpiry(expiresAt);
+    if (expiry === false) {
+      return res.status(400).json({ error: "expiresAt must be a future date" });
+    }
+    if (permissions === undefined && expiry === undefined) {
+      return res.status(400).json({ error: "Nothing to update" });
+    }
+
+    const { data: file, error: fileError } = await supabase
       .from("files")
-      .select("id")
+      .select("id, user_id")
       .eq("id", fileId)
-      .eq("user_id", userId)
       .single();
-    if (fErr || !file) return res.status(404).json({ error: "File not found" });
+
+    if (fileError || !file) {
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    const update: Record<string, any> = {};
+    if (permissions !== undefined) update.permissions = permissions;
+    if (expiry !== undefined) {
+      update.expires_at = expiry;
+      update.expired_at = null; // extended or cleared: active again
+    }
+
+    const { data: share, error: updateError } = await supabase
+      .from("shares")
+      .update(update)
+      .eq("id", shareId)
+      .eq("file_id", fileId)
+      .neq("shared_with_email", "") // public links are managed separately
+      .select("id, file_id, shared_with_email, permissions, expires_at, created_at")
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+    if (!share) {
+      return res.status(404).json({ error: "Share not found" });
+    }
+
+    // Notify owner and recipient in real-time
+    const io = req.app.get("io");
+    const recipientId = await getUserIdByEmail(share.shared_with_email);
+    emitToUsers(io, recipientId ? [userId, file.user_id, recipientId] : [userId, file.user_id], "share:updated", share);
+    if (recipientId) {
+      await notifyUsers(io, [recipientId], {
+        type: "share_updated",
+        actorId: userId,
+        fileId,
+        data: { share_id: share.id, permissions: share.permissions, expires_at: share.expires_at },
+      });
+    }
+
+    return res.json({ message: "Share updated successfully", share });
+  } catch (error) {
+    console.error("Update share error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Public link sharing
+// ------------------------------
+router.post("/:fileId/public", authMiddleware, requireScope("shares:manage"), requireVerifiedEmail, canManageLinks, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const fileId = req.params.fileId;
+
+    // Optional: password, maxDownloads, allowDownload, expiresAt
+    const options = await parsePublicLinkOptions(req.body ?? {});
+    if ("error" in options) return res.status(400).json({ error: options.error });
 
     const publicToken = crypto.randomBytes(24).toString("hex");
 
@@ -289,58 +403,186 @@ router.post("/:fileId/public", authMiddleware, async (req: Request, res: Respons
           permissions: "view",
           share_type: "public",
           public_token: publicToken,
-          expires_at: expiresAt || null,
+          expires_at: null,
+          ...options.update,
         },
       ])
-      .select()
+      .select(PUBLIC_LINK_COLUMNS)
       .single();
 
     if (error) throw error;
 
-    return res.json({ message: "Public link created", token: share.public_token, share });
+    return res.json({ message: "Public link created", token: share.public_token, share: toPublicLink(share) });
   } catch (error) {
     console.error("Create public link error:", error);
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
-router.get("/public/:token", async (req: Request, res: Response) => {
+// List a file's public links with their usage
+router.get("/:fileId/public", authMiddleware, requireScope("shares:manage"), canManageLinks, async (req: Request, res: Response) => {
   try {
-    const token = req.params.token;
+    const fileId = req.params.fileId;
+
+    const { data: links, error } = await supabase
+      .from("shares")
+      .select(PUBLIC_LINK_COLUMNS)
+      .eq("file_id", fileId)
+      .eq("share_type", "public")
+      .order("created_at", { ascending: false });
+    if (error) throw error;
+
+    return res.json({ links: (links ?? []).map(toPublicLink) });
+  } catch (error) {
+    console.error("List public links error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Edit a public link (password: null removes it, maxDownloads/expiresAt: null removes the limit)
+router.patch("/:fileId/public/:shareId", authMiddleware, requireScope("shares:manage"), canManageLinks, async (req: Request, res: Response) => {
+  try {
+    const { fileId, shareId } = req.params;
+
+    const options = await parsePublicLinkOptions(req.body ?? {});
+    if ("error" in options) return res.status(400).json({ error: options.error });
+    if (Object.keys(options.update).length === 0) return res.status(400).json({ error: "Nothing to update" });
 
     const { data: share, error } = await supabase
       .from("shares")
-      .select(
-        `
-        id,
-        file_id,
-        expires_at,
-        files ( id, name, size, type, path )
-      `
-      )
-      .eq("public_token", token)
+      .update(options.update)
+      .eq("id", shareId)
+      .eq("file_id", fileId)
       .eq("share_type", "public")
+      .select(PUBLIC_LINK_COLUMNS)
       .maybeSingle();
     if (error) throw error;
     if (!share) return res.status(404).json({ error: "Link not found" });
-    if (share.expires_at && new Date(share.expires_at) < new Date()) {
-      return res.status(410).json({ error: "Link expired" });
+
+    return res.json({ message: "Public link updated", share: toPublicLink(share) });
+  } catch (error) {
+    console.error("Update public link error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Look up a public link and reject missing, expired or locked ones. Password
+// protected links need the access token from POST /public/:token/unlock
+// (X-Link-Access header or ?access=).
+async function resolvePublicShare(token: string, req?: Request) {
+  const { data: share, error } = await supabase
+    .from("shares")
+    .select(
+      `
+      id,
+      file_id,
+      expires_at,
+      password_hash,
+      allow_download,
+      max_downloads,
+      download_count,
+      files ( id, user_id, name, size, type, mime_type, path, is_folder, is_deleted, thumbnail_status )
+    `
+    )
+    .eq("public_token", token)
+    .eq("share_type", "public")
+    .maybeSingle();
+  if (error) throw error;
+  if (!share || !share.files || (share.files as any).is_deleted) {
+    return { ok: false, status: 404, error: "Link not found" } as const;
+  }
+  if (share.expires_at && new Date(share.expires_at) < new Date()) {
+    return { ok: false, status: 410, error: "Link expired" } as const;
+  }
+  if (req && share.password_hash) {
+    const access = (req.get("x-link-access") || (req.query.access as string | undefined)) ?? undefined;
+    if (!verifyLinkAccessToken(access, share.id)) {
+      return { ok: false, status: 401, error: "Password required", passwordRequired: true } as const;
+    }
+  }
+  return { ok: true, share, file: share.files as any } as const;
+}
+
+function sendLinkError(res: Response, resolved: { status: number; error: string; passwordRequired?: boolean }) {
+  return res
+    .status(resolved.status)
+    .json(resolved.passwordRequired ? { error: resolved.error, passwordRequired: true } : { error: resolved.error });
+}
+
+// Exchange a link password for a short-lived access token
+router.post("/public/:token/unlock", rateLimit("public-unlock", { account: (req) => req.params.token }), async (req: Request, res: Response) => {
+  try {
+    const { password } = (req.body ?? {}) as { password?: string };
+
+    const resolved = await resolvePublicShare(req.params.token);
+    if (!resolved.ok) return res.status(resolved.status).json({ error: resolved.error });
+
+    if (!resolved.share.password_hash) {
+      return res.json({ accessToken: null, passwordRequired: false });
+    }
+
+    const subject = attemptSubject(req, resolved.share.id);
+    if (!(await guardAttempt(res, "link", subject))) return;
+    if (!password || !(await verifyLinkPassword(resolved.share, password))) {
+      await recordFailedAttempt("link", subject);
+      return res.status(401).json({ error: "Incorrect password", passwordRequired: true });
+    }
+    await clearFailedAttempts("link", subject);
+
+    return res.json({ accessToken: issueLinkAccessToken(resolved.share.id), passwordRequired: true });
+  } catch (error) {
+    console.error("Unlock public link error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/public/:token", rateLimit("public"), async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token;
+
+    const resolved = await resolvePublicShare(token, req);
+    if (!resolved.ok) return sendLinkError(res, resolved);
+    const { share, file } = resolved;
+    const allowDownload = canViaPublicLink(share, "download");
+    const limitReached = share.max_downloads != null && share.download_count >= share.max_downloads;
+
+    // Folders are downloaded as a ZIP archive (counted when the ZIP is fetched)
+    if (file.is_folder) {
+      await recordLinkAccess(share.id, false);
+      const access = req.get("x-link-access") || (req.query.access as string | undefined);
+      return res.json({
+        file: { id: file.id, name: file.name, type: "folder", is_folder: true },
+        allowDownload,
+        zipUrl:
+          allowDownload && !limitReached
+            ? `${req.baseUrl}/public/${token}/zip${access ? `?access=${encodeURIComponent(access)}` : ""}`
+            : null,
+      });
+    }
+
+    const info = { id: file.id, name: file.name, size: file.size, type: file.type };
+
+    // Preview only: the generated preview image (never the original, which
+    // would be a download in all but name), or none when there is no preview
+    if (!allowDownload) {
+      await recordLinkAccess(share.id, false);
+      const previewUrl =
+        file.thumbnail_status === "ready" ? await storage.getSignedUrl(thumbnailPath(file.user_id, file.id, "large"), 3600) : null;
+      return res.json({ file: info, allowDownload, previewUrl });
+    }
+
+    // Each signed download URL handed out counts against maxDownloads
+    if (!(await recordLinkAccess(share.id, true))) {
+      return res.status(410).json({ error: "Download limit reached" });
     }
 
     // Generate signed URL for public download (1 hour)
-    const { data: signed, error: sErr } = await supabase.storage
-      .from("files")
-      .createSignedUrl((share.files as any).path, 3600);
-    if (sErr) throw sErr;
+    const downloadUrl = await storage.getSignedUrl(file.path, 3600, { download: file.name });
 
     return res.json({
-      file: {
-        id: (share.files as any).id,
-        name: (share.files as any).name,
-        size: (share.files as any).size,
-        type: (share.files as any).type,
-      },
-      downloadUrl: signed?.signedUrl,
+      file: info,
+      allowDownload,
+      downloadUrl,
     });
   } catch (error) {
     console.error("Resolve public link error:", error);
@@ -348,17 +590,44 @@ router.get("/public/:token", async (req: Request, res: Response) => {
   }
 });
 
-router.delete("/public/:token", authMiddleware, async (req: Request, res: Response) => {
+// Stream a publicly shared folder (or file) as a ZIP
+router.get("/public/:token/zip", rateLimit("public"), async (req: Request, res: Response) => {
+  try {
+    const resolved = await resolvePublicShare(req.params.token, req);
+    if (!resolved.ok) return sendLinkError(res, resolved);
+    if (!canViaPublicLink(resolved.share, "download")) {
+      return res.status(403).json({ error: "Downloads are disabled for this link" });
+    }
+    if (!(await recordLinkAccess(resolved.share.id, true))) {
+      return res.status(410).json({ error: "Download limit reached" });
+    }
+
+    const entries = await collectZipEntries([resolved.file]);
+    await streamZip(res, resolved.file.name, entries);
+  } catch (error) {
+    console.error("Public ZIP download error:", error);
+    if (res.headersSent) return res.destroy();
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.delete("/public/:token", authMiddleware, requireScope("shares:manage"), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const token = req.params.token;
 
-    const { error } = await supabase
+    const { data: link, error: lErr } = await supabase
       .from("shares")
-      .delete()
+      .select("id, file_id")
       .eq("public_token", token)
-      .eq("owner_id", userId);
+      .eq("share_type", "public")
+      .maybeSingle();
+    if (lErr) throw lErr;
+    if (!link || !(await authorizeFile(userId, link.file_id, "manage")).allowed) {
+      return res.status(404).json({ error: "Link not found" });
+    }
 
+    const { error } = await supabase.from("shares").delete().eq("id", link.id);
     if (error) throw error;
 
     return res.json({ message: "Public link revoked" });
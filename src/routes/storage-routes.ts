@@ -0,0 +1,44 @@
+// src/routes/storage-routes.ts
+import { Router, Request, Response } from "express";
+import { storage, LocalStorageProvider } from "../lib/storage";
+
+const router = Router();
+
+// ------------------------------
+// Serve signed URLs issued by the local storage driver
+// ------------------------------
+router.get("/local/*key", async (req: Request, res: Response) => {
+  try {
+    if (!(storage instanceof LocalStorageProvider)) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    const key = ([] as string[]).concat((req.params as any).key).join("/");
+    const expires = Number(req.query.expires);
+    const download = String(req.query.download ?? "");
+    const signature = String(req.query.signature ?? "");
+
+    if (!storage.verify(key, expires, download, signature)) {
+      return res.status(403).json({ error: "Invalid or expired signature" });
+    }
+
+    const info = await storage.head(key);
+    if (!info) return res.status(404).json({ error: "Object not found" });
+
+    res.setHeader("Content-Length", String(info.size));
+    res.setHeader("Content-Type", info.contentType || "application/octet-stream");
+    if (download) res.attachment(download);
+
+    const stream = await storage.getStream(key);
+    stream.on("error", (err) => {
+      console.error("Local storage stream error:", err);
+      res.destroy(err);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error("Local storage serve error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
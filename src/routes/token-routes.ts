@@ -0,0 +1,118 @@
+// src/routes/token-routes.ts
+//
+// Personal access tokens: created and revoked from a signed-in session, used
+// by scripts as `Authorization: Bearer cdp_...`. The plain token is only in
+// the create response.
+import { Router, Request, Response } from "express";
+import { supabase } from "../lib/supabase";
+import { authMiddleware } from "../middlewares/auth-middleware";
+import { sessionOnly } from "../middlewares/scope-middleware";
+import {
+  PERSONAL_TOKEN_COLUMNS,
+  TOKEN_SCOPES,
+  createPersonalAccessToken,
+  isTokenScope,
+} from "../utils/personal-tokens";
+
+const router = Router();
+
+const MAX_TOKENS = 50;
+
+router.use(authMiddleware, sessionOnly);
+
+function toToken(row: any) {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.token_prefix,
+    scopes: row.scopes ?? [],
+    expires_at: row.expires_at ?? null,
+    expired: !!row.expires_at && new Date(row.expires_at).getTime() <= Date.now(),
+    last_used_at: row.last_used_at ?? null,
+    last_used_ip: row.last_used_ip ?? null,
+    created_at: row.created_at,
+  };
+}
+
+// List tokens (never the token values)
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { data, error } = await supabase
+      .from("personal_access_tokens")
+      .select(PERSONAL_TOKEN_COLUMNS)
+      .eq("user_id", userId)
+      .is("revoked_at", null)
+      .order("created_at", { ascending: false });
+    if (error) throw error;
+    return res.json({ tokens: (data ?? []).map(toToken), scopes: TOKEN_SCOPES });
+  } catch (error) {
+    console.error("List tokens error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Create a token: { name, scopes, expiresAt? }
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { name, scopes, expiresAt } = (req.body ?? {}) as { name?: string; scopes?: unknown; expiresAt?: string | null };
+
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ error: "Name is required" });
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isTokenScope)) {
+      return res.status(400).json({ error: `scopes must be a non-empty list of ${TOKEN_SCOPES.join(", ")}` });
+    }
+    let expiry: string | null = null;
+    if (expiresAt) {
+      const date = new Date(String(expiresAt));
+      if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+        return res.status(400).json({ error: "expiresAt must be a future date" });
+      }
+      expiry = date.toISOString();
+    }
+
+    const { count } = await supabase
+      .from("personal_access_tokens")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("revoked_at", null);
+    if ((count ?? 0) >= MAX_TOKENS) {
+      return res.status(400).json({ error: `You can have at most ${MAX_TOKENS} tokens` });
+    }
+
+    const { token, record } = await createPersonalAccessToken(userId, {
+      name: String(name).trim().slice(0, 100),
+      scopes,
+      expiresAt: expiry,
+    });
+    return res.status(201).json({ token, details: toToken(record) });
+  } catch (error) {
+    console.error("Create token error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Revoke a token; it stops working immediately
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { data, error } = await supabase
+      .from("personal_access_tokens")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .is("revoked_at", null)
+      .select("id")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "Token not found" });
+    return res.json({ message: "Token revoked" });
+  } catch (error) {
+    console.error("Revoke token error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
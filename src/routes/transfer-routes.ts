@@ -0,0 +1,285 @@
+// src/routes/transfer-routes.ts
+//
+// Ownership transfers. The owner offers a file or folder (with everything
+// below it) to another account; nothing changes until the receiver accepts.
+// Acceptance runs accept_ownership_transfer, which re-points files, shares,
+// file requests and quota usage in one transaction.
+import { Router, Request, Response } from "express";
+import type { Server } from "socket.io";
+import { supabase } from "../lib/supabase";
+import { storage } from "../lib/storage";
+import { authMiddleware } from "../middlewares/auth-middleware";
+import { sessionOnly } from "../middlewares/scope-middleware";
+import { requireFileAccess } from "../middlewares/policy-middleware";
+import { enforceQuotaOnUpload } from "../utils/quota";
+import { getUserIdByEmail } from "../utils/permissions";
+import { emitToUsers, notifyUsers } from "../utils/notifications";
+import { chunk } from "../utils/tree";
+import { enqueueThumbnail, thumbnailPaths } from "../jobs/thumbnail-worker";
+
+const router = Router();
+
+const TRANSFER_COLUMNS =
+  "id, file_id, from_user_id, to_user_id, status, message, created_at, responded_at, files ( name, is_folder )";
+
+function toTransfer(row: any) {
+  return {
+    id: row.id,
+    file_id: row.file_id,
+    file_name: row.files?.name ?? null,
+    is_folder: !!row.files?.is_folder,
+    from_user_id: row.from_user_id,
+    to_user_id: row.to_user_id,
+    status: row.status,
+    message: row.message ?? null,
+    created_at: row.created_at,
+    responded_at: row.responded_at ?? null,
+  };
+}
+
+/**
+ * Thumbnails are stored under the owner's prefix, so move them to the new
+ * owner's. Best effort: a file whose thumbnails cannot be moved gets them
+ * regenerated.
+ */
+async function moveThumbnails(fileIds: string[], fromUserId: string, toUserId: string): Promise<void> {
+  for (const batch of chunk(fileIds)) {
+    const { data: files, error } = await supabase
+      .from("files")
+      .select("id, mime_type, type")
+      .in("id", batch)
+      .eq("thumbnail_status", "ready");
+    if (error) {
+      console.error("Transfer thumbnails error:", error.message);
+      return;
+    }
+    for (const file of files ?? []) {
+      const from = thumbnailPaths(fromUserId, file.id);
+      const to = thumbnailPaths(toUserId, file.id);
+      try {
+        for (let i = 0; i < from.length; i++) await storage.copy(from[i], to[i]);
+        await storage.delete(from);
+      } catch {
+        enqueueThumbnail(file.id, file.mime_type || file.type);
+      }
+    }
+  }
+}
+
+async function respond(io: Server | undefined, transfer: any, status: "declined" | "cancelled") {
+  const { data, error } = await supabase
+    .from("ownership_transfers")
+    .update({ status, responded_at: new Date().toISOString() })
+    .eq("id", transfer.id)
+    .eq("status", "pending")
+    .select(TRANSFER_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  if (data) emitToUsers(io, [data.from_user_id, data.to_user_id], `transfer:${status}`, toTransfer(data));
+  return data;
+}
+
+// ------------------------------
+// Offer a file or folder to another user
+// ------------------------------
+router.post("/", authMiddleware, sessionOnly, requireFileAccess("manage", { body: "fileId" }), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { fileId, email, message } = req.body as { fileId?: string; email?: string; message?: string };
+
+    if (!email) return res.status(400).json({ error: "email is required" });
+
+    const { data: file, error: fileError } = await supabase
+      .from("files")
+      .select("id, name, is_folder, is_deleted")
+      .eq("id", fileId)
+      .single();
+    if (fileError || !file || file.is_deleted) {
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    const toUserId = await getUserIdByEmail(email);
+    if (!toUserId) return res.status(404).json({ error: "User not found" });
+    if (toUserId === userId) return res.status(400).json({ error: "You already own this file" });
+
+    const { data: transfer, error } = await supabase
+      .from("ownership_transfers")
+      .insert({
+        file_id: fileId,
+        from_user_id: userId,
+        to_user_id: toUserId,
+        message: message ? String(message).slice(0, 1000) : null,
+      })
+      .select(TRANSFER_COLUMNS)
+      .single();
+    if (error) {
+      if ((error as any).code === "23505") {
+        return res.status(409).json({ error: "A transfer of this file is already pending" });
+      }
+      throw error;
+    }
+
+    const io = req.app.get("io");
+    emitToUsers(io, [userId, toUserId], "transfer:requested", toTransfer(transfer));
+    await notifyUsers(io, [toUserId], {
+      type: "transfer_requested",
+      actorId: userId,
+      fileId,
+      data: { transfer_id: transfer.id, name: file.name, is_folder: !!file.is_folder },
+    });
+
+    return res.status(201).json({ message: "Transfer requested", transfer: toTransfer(transfer) });
+  } catch (error) {
+    console.error("Request transfer error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// List transfers (incoming by default)
+// ------------------------------
+router.get("/", authMiddleware, sessionOnly, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const direction = req.query.direction === "outgoing" ? "outgoing" : "incoming";
+    const status = String(req.query.status ?? "pending");
+    if (!["pending", "accepted", "declined", "cancelled", "all"].includes(status)) {
+      return res.status(400).json({ error: "Invalid status" });
+    }
+
+    let select = supabase
+      .from("ownership_transfers")
+      .select(TRANSFER_COLUMNS)
+      .eq(direction === "incoming" ? "to_user_id" : "from_user_id", userId);
+    if (status !== "all") select = select.eq("status", status);
+
+    const { data, error } = await select.order("created_at", { ascending: false }).limit(200);
+    if (error) throw error;
+    return res.json({ transfers: (data ?? []).map(toTransfer) });
+  } catch (error) {
+    console.error("List transfers error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Accept (receiver)
+// ------------------------------
+router.post("/:id/accept", authMiddleware, sessionOnly, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+
+    const { data: transfer, error: tErr } = await supabase
+      .from("ownership_transfers")
+      .select(TRANSFER_COLUMNS)
+      .eq("id", req.params.id)
+      .eq("to_user_id", userId)
+      .eq("status", "pending")
+      .maybeSingle();
+    if (tErr) throw tErr;
+    if (!transfer) return res.status(404).json({ error: "Transfer not found" });
+
+    // The receiver's plan limits apply to everything they take over
+    const { data: usage, error: uErr } = await supabase
+      .rpc("subtree_quota_usage", { p_root_id: transfer.file_id, p_owner_id: transfer.from_user_id })
+      .maybeSingle();
+    if (uErr) throw uErr;
+    const bytes = Number((usage as any)?.bytes ?? 0);
+    const files = Number((usage as any)?.files ?? 0);
+    const quotaCheck = await enforceQuotaOnUpload(userId, bytes, files);
+    if (!quotaCheck.allowed) {
+      return res.status(403).json({ error: quotaCheck.reason, code: quotaCheck.code });
+    }
+
+    const { data: result, error } = await supabase
+      .rpc("accept_ownership_transfer", { p_transfer_id: transfer.id })
+      .maybeSingle();
+    if (error) throw error;
+    const moved = result as { moved_ids: string[]; moved_bytes: number; moved_files: number } | null;
+    if (!moved) {
+      // Cancelled meanwhile, or the sender deleted the file
+      return res.status(409).json({ error: "Transfer is no longer available" });
+    }
+
+    await moveThumbnails(moved.moved_ids, transfer.from_user_id, userId);
+
+    const io = req.app.get("io");
+    const payload = {
+      ...toTransfer({ ...transfer, status: "accepted", responded_at: new Date().toISOString() }),
+      file_count: moved.moved_ids.length,
+      bytes: Number(moved.moved_bytes),
+    };
+    emitToUsers(io, [transfer.from_user_id, userId], "transfer:accepted", payload);
+    await notifyUsers(io, [transfer.from_user_id], {
+      type: "transfer_accepted",
+      actorId: userId,
+      fileId: transfer.file_id,
+      data: { transfer_id: transfer.id, name: payload.file_name, is_folder: payload.is_folder },
+    });
+
+    return res.json({ message: "Transfer accepted", transfer: payload });
+  } catch (error) {
+    console.error("Accept transfer error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Decline (receiver)
+// ------------------------------
+router.post("/:id/decline", authMiddleware, sessionOnly, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { data: transfer } = await supabase
+      .from("ownership_transfers")
+      .select("id, file_id, from_user_id")
+      .eq("id", req.params.id)
+      .eq("to_user_id", userId)
+      .eq("status", "pending")
+      .maybeSingle();
+    if (!transfer) return res.status(404).json({ error: "Transfer not found" });
+
+    const io = req.app.get("io");
+    const declined = await respond(io, transfer, "declined");
+    if (!declined) return res.status(409).json({ error: "Transfer is no longer available" });
+
+    await notifyUsers(io, [transfer.from_user_id], {
+      type: "transfer_declined",
+      actorId: userId,
+      fileId: transfer.file_id,
+      data: { transfer_id: transfer.id, name: (declined.files as any)?.name },
+    });
+
+    return res.json({ message: "Transfer declined", transfer: toTransfer(declined) });
+  } catch (error) {
+    console.error("Decline transfer error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Cancel (sender)
+// ------------------------------
+router.delete("/:id", authMiddleware, sessionOnly, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const { data: transfer } = await supabase
+      .from("ownership_transfers")
+      .select("id")
+      .eq("id", req.params.id)
+      .eq("from_user_id", userId)
+      .eq("status", "pending")
+      .maybeSingle();
+    if (!transfer) return res.status(404).json({ error: "Transfer not found" });
+
+    const cancelled = await respond(req.app.get("io"), transfer, "cancelled");
+    if (!cancelled) return res.status(409).json({ error: "Transfer is no longer available" });
+
+    return res.json({ message: "Transfer cancelled", transfer: toTransfer(cancelled) });
+  } catch (error) {
+    console.error("Cancel transfer error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,109 @@
+// src/routes/two-factor-routes.ts
+//
+// TOTP two-factor management for the signed-in user. The login side (the
+// challenge returned by /api/auth/login and POST /api/auth/login/2fa) lives
+// in auth-routes.ts.
+import { Router, Request, Response } from "express";
+import { authMiddleware } from "../middlewares/auth-middleware";
+import { sessionOnly } from "../middlewares/scope-middleware";
+import { rateLimit } from "../middlewares/rate-limit-middleware";
+import {
+  TwoFactorError,
+  beginEnrollment,
+  confirmEnrollment,
+  countRecoveryCodes,
+  disableTwoFactor,
+  isTwoFactorEnabled,
+  reauthenticate,
+  replaceRecoveryCodes,
+} from "../utils/two-factor";
+
+const router = Router();
+
+// Code checks and re-authentication can be guessed at; count them per user
+const limitPerUser = rateLimit("auth", { account: (req) => req.userId });
+
+function handleError(res: Response, label: string, error: unknown) {
+  if (error instanceof TwoFactorError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${label} error:`, error);
+  return res.status(500).json({ error: "Internal server error" });
+}
+
+// ------------------------------
+// Status
+// ------------------------------
+router.get("/", authMiddleware, sessionOnly, async (req: Request, res: Response) => {
+  try {
+    const enabled = isTwoFactorEnabled(req.user);
+    return res.json({
+      enabled,
+      enabledAt: req.user.totp_enabled_at ?? null,
+      recoveryCodesRemaining: enabled ? await countRecoveryCodes(req.userId as string) : 0,
+    });
+  } catch (error) {
+    return handleError(res, "Two-factor status", error);
+  }
+});
+
+// ------------------------------
+// Enroll: returns the secret and an otpauth:// URI for authenticator apps
+// ------------------------------
+router.post("/enroll", authMiddleware, sessionOnly, async (req: Request, res: Response) => {
+  try {
+    const { secret, otpauthUri } = await beginEnrollment(req.user);
+    return res.json({ secret, otpauthUri });
+  } catch (error) {
+    return handleError(res, "Two-factor enroll", error);
+  }
+});
+
+// ------------------------------
+// Verify the first code: enables 2FA and returns the recovery codes once
+// ------------------------------
+router.post("/verify", authMiddleware, sessionOnly, limitPerUser, async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body ?? {};
+    if (!code) return res.status(400).json({ error: "code is required" });
+
+    const recoveryCodes = await confirmEnrollment(req.userId as string, String(code));
+    return res.json({ message: "Two-factor authentication enabled", recoveryCodes });
+  } catch (error) {
+    return handleError(res, "Two-factor verify", error);
+  }
+});
+
+// ------------------------------
+// Disable (password + current code or a recovery code)
+// ------------------------------
+router.post("/disable", authMiddleware, sessionOnly, limitPerUser, async (req: Request, res: Response) => {
+  try {
+    if (!isTwoFactorEnabled(req.user)) {
+      return res.status(409).json({ error: "Two-factor authentication is not enabled" });
+    }
+    await reauthenticate(req.user, req.body ?? {});
+    await disableTwoFactor(req.userId as string);
+    return res.json({ message: "Two-factor authentication disabled" });
+  } catch (error) {
+    return handleError(res, "Two-factor disable", error);
+  }
+});
+
+// ------------------------------
+// Regenerate recovery codes (password + current code or a recovery code)
+// ------------------------------
+router.post("/recovery-codes", authMiddleware, sessionOnly, limitPerUser, async (req: Request, res: Response) => {
+  try {
+    if (!isTwoFactorEnabled(req.user)) {
+      return res.status(409).json({ error: "Two-factor authentication is not enabled" });
+    }
+    await reauthenticate(req.user, req.body ?? {});
+    const recoveryCodes = await replaceRecoveryCodes(req.userId as string);
+    return res.json({ message: "Recovery codes regenerated", recoveryCodes });
+  } catch (error) {
+    return handleError(res, "Regenerate recovery codes", error);
+  }
+});
+
+export default router;
@@ -0,0 +1,470 @@
+// src/routes/upload-sessions.ts
+//
+// Resumable uploads. Speaks the core tus 1.0.0 protocol (creation, HEAD
+// offset, PATCH append, termination) and a plain JSON flavour with numbered
+// chunks for clients that do not want a tus library. Chunks are appended to a
+// temp file on local disk; on completion the assembled file is streamed to the
+// `files` bucket and recorded exactly like a direct upload.
+import { Router, Request, Response } from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { supabase } from "../lib/supabase";
+import { storage } from "../lib/storage";
+import { authMiddleware } from "../middlewares/auth-middleware";
+import { requireScope } from "../middlewares/scope-middleware";
+import { enforceQuotaOnUpload } from "../utils/quota";
+import { authorizeFile } from "../utils/policy";
+import { isLiveFolder } from "../utils/tree";
+import { generateStorageFileName, recordUploadedFile } from "../utils/uploads";
+
+const router = Router();
+
+const TUS_VERSION = "1.0.0";
+const UPLOAD_TMP_DIR = process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), "clouddrive-uploads");
+const MAX_UPLOAD_SIZE = Number(process.env.MAX_UPLOAD_SIZE_BYTES || 10 * 1024 * 1024 * 1024); // 10GB
+const DEFAULT_CHUNK_SIZE = Number(process.env.UPLOAD_CHUNK_SIZE_BYTES || 8 * 1024 * 1024); // 8MB
+const SESSION_TTL_HOURS = Number(process.env.UPLOAD_SESSION_TTL_HOURS || 24);
+
+fs.mkdirSync(UPLOAD_TMP_DIR, { recursive: true });
+
+// ------------------------------
+// Helpers
+// ------------------------------
+function tempPathFor(sessionId: string): string {
+  return path.join(UPLOAD_TMP_DIR, `${sessionId}.part`);
+}
+
+function setTusHeaders(res: Response) {
+  res.setHeader("Tus-Resumable", TUS_VERSION);
+  res.setHeader("Cache-Control", "no-store");
+}
+
+// tus Upload-Metadata: comma separated "key base64value" pairs
+function parseTusMetadata(header: string | undefined): Record<string, string> {
+  const meta: Record<string, string> = {};
+  if (!header) return meta;
+  for (const pair of header.split(",")) {
+    const [key, value] = pair.trim().split(" ");
+    if (!key) continue;
+    meta[key] = value ? Buffer.from(value, "base64").toString("utf8") : "";
+  }
+  return meta;
+}
+
+async function loadSession(sessionId: string, userId: string) {
+  const { data: session, error } = await supabase
+    .from("upload_sessions")
+    .select("*")
+    .eq("id", sessionId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return session;
+}
+
+function isExpired(session: any): boolean {
+  return !!session.expires_at && new Date(session.expires_at) < new Date();
+}
+
+/**
+ * Stream the request body into the session's temp file at `offset`.
+ * Returns the number of bytes written; rejects bodies that would overflow
+ * the declared total size.
+ */
+async function appendChunk(req: Request, session: any, offset: number): Promise<number> {
+  const remaining = Number(session.total_size) - offset;
+  let written = 0;
+
+  const counter = new Transform({
+    transform(chunk: Buffer, _enc, cb) {
+      written += chunk.length;
+      if (written > remaining) {
+        cb(new Error("CHUNK_EXCEEDS_UPLOAD_LENGTH"));
+        return;
+      }
+      cb(null, chunk);
+    },
+  });
+
+  await pipeline(req, counter, fs.createWriteStream(tempPathFor(session.id), { flags: "r+", start: offset }));
+  return written;
+}
+
+async function saveOffset(sessionId: string, offset: number) {
+  const { error } = await supabase
+    .from("upload_sessions")
+    .update({ received_bytes: offset, updated_at: new Date().toISOString() })
+    .eq("id", sessionId);
+  if (error) throw error;
+}
+
+/**
+ * Move the assembled temp file into storage, insert the `files` row and
+ * emit `file:created`. Idempotent: a completed session returns its file.
+ */
+async function finalizeSession(req: Request, session: any) {
+  if (session.status === "completed") {
+    const { data: file } = await supabase.from("files").select("*").eq("id", session.file_id).maybeSingle();
+    return file;
+  }
+
+  const tempPath = tempPathFor(session.id);
+
+  // The session belongs to the uploader; the file to the target folder's
+  // owner. Shares can be revoked (or the folder trashed) while the upload
+  // runs, so check again.
+  let ownerId = session.user_id as string;
+  if (session.parent_id) {
+    const access = await authorizeFile(session.user_id, session.parent_id, "write");
+    if (!access.allowed || !(await isLiveFolder(session.parent_id))) throw new Error("UPLOAD_TARGET_FORBIDDEN");
+    ownerId = access.ownerId ?? ownerId;
+  }
+  const storagePath = `${ownerId}/${generateStorageFileName(session.file_name)}`;
+
+  const uploadData = await storage.put(storagePath, fs.createReadStream(tempPath), {
+    contentType: session.mime_type,
+    size: Number(session.total_size),
+  });
+
+  const fileData = await recordUploadedFile(req.app.get("io"), {
+    userId: ownerId,
+    originalName: session.file_name,
+    size: Number(session.total_size),
+    mimeType: session.mime_type,
+    path: uploadData.path,
+    parentId: session.parent_id,
+  });
+
+  const { error: updErr } = await supabase
+    .from("upload_sessions")
+    .update({ status: "completed", file_id: fileData.id, updated_at: new Date().toISOString() })
+    .eq("id", session.id);
+  if (updErr) throw updErr;
+
+  await fs.promises.rm(tempPath, { force: true });
+
+  return fileData;
+}
+
+// ------------------------------
+// tus capability discovery
+// ------------------------------
+router.options("/", (_req: Request, res: Response) => {
+  setTusHeaders(res);
+  res.setHeader("Tus-Version", TUS_VERSION);
+  res.setHeader("Tus-Extension", "creation,termination");
+  res.setHeader("Tus-Max-Size", String(MAX_UPLOAD_SIZE));
+  return res.sendStatus(204);
+});
+
+// ------------------------------
+// Create upload session
+// ------------------------------
+// JSON: { fileName, size, mimeType?, parentId?, chunkSize? }
+// tus:  Upload-Length + Upload-Metadata (filename, filetype, parentId)
+router.post("/", authMiddleware, requireScope("files:write"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const isTus = !!req.headers["tus-resumable"];
+    if (isTus) setTusHeaders(res);
+
+    const meta = parseTusMetadata(req.headers["upload-metadata"] as string | undefined);
+    const body = (req.body ?? {}) as {
+      fileName?: string;
+      size?: number | string;
+      mimeType?: string;
+      parentId?: string | null;
+      chunkSize?: number | string;
+    };
+
+    const fileName = (isTus ? meta.filename || meta.name : body.fileName)?.trim();
+    const totalSize = Number(isTus ? req.headers["upload-length"] : body.size);
+    const mimeType = (isTus ? meta.filetype || meta.type : body.mimeType) || "application/octet-stream";
+    const parentId = (isTus ? meta.parentId : body.parentId) || null;
+    const chunkSize = Math.max(1, Number(body.chunkSize) || DEFAULT_CHUNK_SIZE);
+
+    if (!fileName) {
+      return res.status(400).json({ error: "File name is required" });
+    }
+    if (!Number.isFinite(totalSize) || totalSize < 0) {
+      return res.status(400).json({ error: "A valid total size is required" });
+    }
+    if (totalSize > MAX_UPLOAD_SIZE) {
+      return res.status(413).json({ error: `File exceeds maximum upload size of ${MAX_UPLOAD_SIZE} bytes` });
+    }
+
+    // Uploading into a folder is "write" on it; the file will belong to (and
+    // be charged to) the folder's owner
+    let ownerId = userId;
+    if (parentId) {
+      const access = await authorizeFile(userId, parentId, "write");
+      if (!access.allowed) {
+        return access.role
+          ? res.status(403).json({ error: "Insufficient permissions" })
+          : res.status(404).json({ error: "Folder not found" });
+      }
+      if (!(await isLiveFolder(parentId))) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      ownerId = access.ownerId ?? userId;
+    }
+
+    // Enforce quota limits against the declared total size
+    const quotaCheck = await enforceQuotaOnUpload(ownerId, totalSize);
+    if (!quotaCheck.allowed) {
+      return res.status(403).json({ error: quotaCheck.reason, code: quotaCheck.code });
+    }
+
+    const { data: session, error } = await supabase
+      .from("upload_sessions")
+      .insert([
+        {
+          user_id: userId,
+          file_name: fileName,
+          mime_type: mimeType,
+          total_size: totalSize,
+          chunk_size: chunkSize,
+          received_bytes: 0,
+          parent_id: parentId,
+          status: "uploading",
+          expires_at: new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+        },
+      ])
+      .select()
+      .single();
+    if (error) throw error;
+
+    await fs.promises.writeFile(tempPathFor(session.id), Buffer.alloc(0));
+
+    const location = `${req.baseUrl}/${session.id}`;
+    res.setHeader("Location", location);
+    if (isTus) res.setHeader("Upload-Offset", "0");
+
+    return res.status(201).json({ message: "Upload session created", session, location });
+  } catch (error) {
+    console.error("Create upload session error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Query received offset
+// ------------------------------
+router.head("/:id", authMiddleware, requireScope("files:write"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const session = await loadSession(req.params.id, userId);
+    setTusHeaders(res);
+
+    if (!session || session.status === "aborted") return res.sendStatus(404);
+    if (isExpired(session) && session.status !== "completed") return res.sendStatus(410);
+
+    res.setHeader("Upload-Offset", String(session.received_bytes));
+    res.setHeader("Upload-Length", String(session.total_size));
+    return res.sendStatus(200);
+  } catch (error) {
+    console.error("Upload offset error:", error);
+    return res.sendStatus(500);
+  }
+});
+
+router.get("/:id", authMiddleware, requireScope("files:write"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const session = await loadSession(req.params.id, userId);
+
+    if (!session || session.status === "aborted") {
+      return res.status(404).json({ error: "Upload session not found" });
+    }
+
+    return res.json({
+      session,
+      offset: Number(session.received_bytes),
+      nextChunk: Math.floor(Number(session.received_bytes) / Number(session.chunk_size)),
+      expired: isExpired(session),
+    });
+  } catch (error) {
+    console.error("Get upload session error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// tus append (PATCH with Upload-Offset)
+// ------------------------------
+router.patch("/:id", authMiddleware, requireScope("files:write"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    setTusHeaders(res);
+
+    if (req.headers["content-type"] !== "application/offset+octet-stream") {
+      return res.status(415).json({ error: "Content-Type must be application/offset+octet-stream" });
+    }
+
+    const session = await loadSession(req.params.id, userId);
+    if (!session || session.status === "aborted") {
+      return res.status(404).json({ error: "Upload session not found" });
+    }
+    if (session.status === "completed") {
+      return res.status(409).json({ error: "Upload already completed" });
+    }
+    if (isExpired(session)) {
+      return res.status(410).json({ error: "Upload session expired" });
+    }
+
+    const offset = Number(req.headers["upload-offset"]);
+    if (offset !== Number(session.received_bytes)) {
+      res.setHeader("Upload-Offset", String(session.received_bytes));
+      return res.status(409).json({ error: "Upload-Offset does not match received bytes" });
+    }
+
+    const written = await appendChunk(req, session, offset);
+    const newOffset = offset + written;
+    await saveOffset(session.id, newOffset);
+
+    if (newOffset === Number(session.total_size)) {
+      await finalizeSession(req, { ...session, received_bytes: newOffset });
+    }
+
+    res.setHeader("Upload-Offset", String(newOffset));
+    return res.sendStatus(204);
+  } catch (error: any) {
+    if (error?.message === "CHUNK_EXCEEDS_UPLOAD_LENGTH") {
+      return res.status(413).json({ error: "Chunk exceeds declared upload length" });
+    }
+    if (error?.message === "UPLOAD_TARGET_FORBIDDEN") {
+      return res.status(403).json({ error: "You can no longer upload into this folder" });
+    }
+    console.error("Upload append error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Numbered chunk upload
+// ------------------------------
+// Chunks must arrive in order; re-sending an already stored chunk is a no-op
+// so clients can retry blindly after a dropped connection.
+router.put("/:id/chunks/:index", authMiddleware, requireScope("files:write"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const index = parseInt(req.params.index, 10);
+
+    if (Number.isNaN(index) || index < 0) {
+      return res.status(400).json({ error: "Invalid chunk index" });
+    }
+
+    const session = await loadSession(req.params.id, userId);
+    if (!session || session.status === "aborted") {
+      return res.status(404).json({ error: "Upload session not found" });
+    }
+    if (session.status === "completed") {
+      return res.status(409).json({ error: "Upload already completed" });
+    }
+    if (isExpired(session)) {
+      return res.status(410).json({ error: "Upload session expired" });
+    }
+
+    const chunkSize = Number(session.chunk_size);
+    const received = Number(session.received_bytes);
+    const offset = index * chunkSize;
+
+    if (offset + chunkSize <= received) {
+      req.resume();
+      return res.json({ message: "Chunk already received", offset: received });
+    }
+    if (offset !== received) {
+      return res.status(409).json({
+        error: "Chunk out of order",
+        expectedChunk: Math.floor(received / chunkSize),
+        offset: received,
+      });
+    }
+
+    const written = await appendChunk(req, session, offset);
+    const isLast = offset + written === Number(session.total_size);
+    if (written !== chunkSize && !isLast) {
+      return res.status(400).json({ error: `Chunk must be exactly ${chunkSize} bytes except the last one` });
+    }
+
+    await saveOffset(session.id, offset + written);
+
+    return res.json({ message: "Chunk received", offset: offset + written, complete: isLast });
+  } catch (error: any) {
+    if (error?.message === "CHUNK_EXCEEDS_UPLOAD_LENGTH") {
+      return res.status(413).json({ error: "Chunk exceeds declared upload length" });
+    }
+    console.error("Upload chunk error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Finalize upload
+// ------------------------------
+router.post("/:id/complete", authMiddleware, requireScope("files:write"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    const session = await loadSession(req.params.id, userId);
+
+    if (!session || session.status === "aborted") {
+      return res.status(404).json({ error: "Upload session not found" });
+    }
+    if (Number(session.received_bytes) !== Number(session.total_size)) {
+      return res.status(409).json({
+        error: "Upload incomplete",
+        offset: Number(session.received_bytes),
+        total: Number(session.total_size),
+      });
+    }
+
+    const fileData = await finalizeSession(req, session);
+
+    return res.json({
+      message: "File uploaded successfully",
+      file: fileData,
+    });
+  } catch (error: any) {
+    if (error?.message === "UPLOAD_TARGET_FORBIDDEN") {
+      return res.status(403).json({ error: "You can no longer upload into this folder" });
+    }
+    console.error("Finalize upload error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ------------------------------
+// Abort upload (tus termination)
+// ------------------------------
+router.delete("/:id", authMiddleware, requireScope("files:write"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId as string;
+    setTusHeaders(res);
+
+    const session = await loadSession(req.params.id, userId);
+    if (!session) {
+      return res.status(404).json({ error: "Upload session not found" });
+    }
+    if (session.status === "completed") {
+      return res.status(409).json({ error: "Upload already completed" });
+    }
+
+    const { error } = await supabase
+      .from("upload_sessions")
+      .update({ status: "aborted", updated_at: new Date().toISOString() })
+      .eq("id", session.id);
+    if (error) throw error;
+
+    await fs.promises.rm(tempPathFor(session.id), { force: true });
+
+    return res.sendStatus(204);
+  } catch (error) {
+    console.error("Abort upload error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
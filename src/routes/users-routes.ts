@@ -2,11 +2,13 @@
 import { Router, Request, Response } from "express";
 import { supabase } from "../lib/supabase";
 import { authMiddleware } from "../middlewares/auth-middleware";
+import { requireScope } from "../middlewares/scope-middleware";
+import { getQuotaBreakdown } from "../utils/quota";
 
 const router = Router();
 
 // Get current user's quota/usage
-router.get("/quota", authMiddleware, async (req: Request, res: Response) => {
+router.get("/quota", authMiddleware, requireScope("files:read"), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId as string;
 
@@ -18,6 +20,9 @@ router.get("/quota", authMiddleware, async (req: Request, res: Response) => {
 
     if (error) throw error;
 
+    // Live files vs. trash vs. version history, computed from the tables
+    const breakdown = await getQuotaBreakdown(userId);
+
     return res.json({
       quota: {
         plan: quota?.plan ?? "free",
@@ -25,6 +30,7 @@ router.get("/quota", authMiddleware, async (req: Request, res: Response) => {
         storage_limit: quota?.storage_limit ?? 5 * 1024 * 1024 * 1024,
         file_count: quota?.file_count ?? 0,
         file_count_limit: quota?.file_count_limit ?? 10000,
+        breakdown,
       },
     });
   } catch (error) {
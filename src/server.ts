@@ -3,9 +3,21 @@ import express, { Request, Response, NextFunction } from "express";
 import cors from "cors";
 import dotenv from "dotenv";
 import authRoutes from "./routes/auth-routes";
+import twoFactorRoutes from "./routes/two-factor-routes";
 import fileRoutes from "./routes/file-operations";
 import shareRoutes from "./routes/share-operations";
 import userRoutes from "./routes/users-routes";
+import uploadSessionRoutes from "./routes/upload-sessions";
+import adminRoutes from "./routes/admin-routes";
+import storageRoutes from "./routes/storage-routes";
+import searchRoutes from "./routes/search-routes";
+import savedSearchRoutes from "./routes/saved-searches";
+import changeRoutes from "./routes/changes-routes";
+import notificationRoutes from "./routes/notifications-routes";
+import fileRequestRoutes from "./routes/file-requests";
+import transferRoutes from "./routes/transfer-routes";
+import accessRequestRoutes from "./routes/access-requests";
+import tokenRoutes from "./routes/token-routes";
 import { supabase, checkSupabaseConnection } from "./lib/supabase";
 import passport from "passport";
 import billingRoutes, { stripeWebhookRawHandler } from "./routes/billing-routes";
@@ -15,6 +27,14 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Behind a reverse proxy (Render, nginx) req.ip would be the proxy's address
+// and every client would share one rate limit bucket. TRUST_PROXY is the
+// number of proxy hops, or any value Express accepts for "trust proxy".
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+
 // ------------------------------
 // Middleware
 // ------------------------------
@@ -26,6 +46,8 @@ app.use(
       "https://cloud-drive-frontend-six.vercel.app"
     ], // allow frontend origin and localhost for testing
     credentials: true,
+    // Resumable (tus) uploads and rate-limited clients read these from responses
+    exposedHeaders: ["Retry-After", "RateLimit-Limit", "RateLimit-Remaining", "RateLimit-Reset", "Location", "Upload-Offset", "Upload-Length", "Tus-Resumable", "Tus-Version", "Tus-Extension", "Tus-Max-Size"],
   })
 );
 
@@ -44,13 +66,24 @@ app.use(express.urlencoded({ extended: true }));
 // Initialize passport (no sessions)
 app.use(passport.initialize());
 
-// Basic request logger for auth routes (sanitize sensitive fields)
+// Basic request logger for auth routes, /api/auth/2fa included (sanitize
+// sensitive fields: passwords, one-time codes, login challenges and tokens)
+const SENSITIVE_AUTH_FIELDS = [
+  'password', 'confirmPassword', 'currentPassword', 'newPassword',
+  'token', 'refreshToken', 'challengeToken', 'code', 'recoveryCode',
+];
+
+function maskSensitive(values: any): any {
+  const safe: any = values ? { ...values } : {};
+  for (const field of SENSITIVE_AUTH_FIELDS) {
+    if (typeof safe[field] !== 'undefined') safe[field] = '***';
+  }
+  return safe;
+}
+
 app.use((req: Request, _res: Response, next: NextFunction) => {
   if (req.path.startsWith('/api/auth')) {
-    const safeBody: any = req.body ? { ...req.body } : {};
-    if (typeof safeBody.password !== 'undefined') safeBody.password = '***';
-    if (typeof safeBody.confirmPassword !== 'undefined') safeBody.confirmPassword = '***';
-    console.log(`[REQ] ${req.method} ${req.path}`, { query: req.query, body: safeBody });
+    console.log(`[REQ] ${req.method} ${req.path}`, { query: maskSensitive(req.query), body: maskSensitive(req.body) });
   }
   next();
 });
@@ -58,11 +91,23 @@ app.use((req: Request, _res: Response, next: NextFunction) => {
 // ------------------------------
 // Routes
 // ------------------------------
+app.use("/api/auth/2fa", twoFactorRoutes);
 app.use("/api/auth", authRoutes);
 app.use("/api/files", fileRoutes);
+app.use("/api/uploads", uploadSessionRoutes);
 app.use("/api/shares", shareRoutes);
 app.use("/api/users", userRoutes);
 app.use("/api/billing", billingRoutes);
+app.use("/api/admin", adminRoutes);
+app.use("/api/storage", storageRoutes);
+app.use("/api/search", searchRoutes);
+app.use("/api/searches", savedSearchRoutes);
+app.use("/api/changes", changeRoutes);
+app.use("/api/notifications", notificationRoutes);
+app.use("/api/file-requests", fileRequestRoutes);
+app.use("/api/transfers", transferRoutes);
+app.use("/api/access-requests", accessRequestRoutes);
+app.use("/api/tokens", tokenRoutes);
 
 // Health check
 app.get("/api/health", (_req: Request, res: Response) => {
@@ -126,6 +171,8 @@ app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
 // ------------------------------
 import http from "http";
 import { setupRealtime } from "./realtime/socket";
+import { startThumbnailWorker } from "./jobs/thumbnail-worker";
+import { startShareExpirySweep } from "./jobs/share-expiry";
 
 const httpServer = http.createServer(app);
 const io = setupRealtime(httpServer);
@@ -133,6 +180,12 @@ const io = setupRealtime(httpServer);
 // Make io accessible to routes via app instance
 app.set("io", io);
 
+// Background jobs
+startThumbnailWorker(io).catch((err: any) => {
+  console.error("[thumbnails] worker failed to start:", err?.message || err);
+});
+startShareExpirySweep(io);
+
 httpServer.listen(PORT, () => {
   console.log(`✅ Server is running on http://localhost:${PORT}`);
   // Run a startup connectivity check (non-blocking)
@@ -0,0 +1,118 @@
+// src/utils/account-tokens.ts
+//
+// Single-use tokens mailed to the account's address: password reset and
+// email verification. Tokens are `<id>.<secret>`; the row stores an HMAC of
+// the secret keyed with JWT_SECRET, so neither a database dump nor a guessed
+// id yields a usable token. Consuming a token marks it used in the same
+// statement that checks it.
+import crypto from "crypto";
+import { supabase } from "../lib/supabase";
+import { mailer } from "../lib/mailer";
+
+const CLIENT_URL = process.env.CLIENT_URL || "https://cloud-drive-frontend-six.vercel.app";
+const TOKEN_SECRET = process.env.JWT_SECRET || "your-secret-key";
+
+export type AccountTokenPurpose = "password_reset" | "email_verification";
+
+const TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000, // 1 hour
+  email_verification: 7 * 24 * 60 * 60 * 1000, // 7 days
+};
+
+function signSecret(secret: string): string {
+  return crypto.createHmac("sha256", TOKEN_SECRET).update(secret).digest("hex");
+}
+
+/**
+ * Issue a token for `purpose`, replacing any unused one the user already
+ * has for the same purpose (only the latest email works).
+ */
+export async function issueAccountToken(userId: string, email: string, purpose: AccountTokenPurpose): Promise<string> {
+  const now = new Date().toISOString();
+  const { error: cleanupError } = await supabase
+    .from("account_tokens")
+    .update({ used_at: now })
+    .eq("user_id", userId)
+    .eq("purpose", purpose)
+    .is("used_at", null);
+  if (cleanupError) throw cleanupError;
+
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const { data, error } = await supabase
+    .from("account_tokens")
+    .insert({
+      user_id: userId,
+      email,
+      purpose,
+      token_hash: signSecret(secret),
+      expires_at: new Date(Date.now() + TOKEN_TTL_MS[purpose]).toISOString(),
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return `${data.id}.${secret}`;
+}
+
+/**
+ * Use up a token. Returns the user and the address it was mailed to, or null
+ * when the token is unknown, expired, already used or for another purpose.
+ */
+export async function consumeAccountToken(
+  token: string,
+  purpose: AccountTokenPurpose
+): Promise<{ userId: string; email: string } | null> {
+  const [id, secret] = String(token).split(".");
+  if (!id || !secret || !/^[0-9a-f-]{36}$/i.test(id)) return null;
+
+  const { data, error } = await supabase
+    .from("account_tokens")
+    .update({ used_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("purpose", purpose)
+    .eq("token_hash", signSecret(secret))
+    .is("used_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .select("user_id, email")
+    .maybeSingle();
+  if (error) throw error;
+  return data ? { userId: data.user_id, email: data.email } : null;
+}
+
+/** Mail a verification link. Never throws; returns whether it was sent. */
+export async function sendVerificationEmail(user: { id: string; email: string }): Promise<boolean> {
+  try {
+    const token = await issueAccountToken(user.id, user.email, "email_verification");
+    await mailer.send({
+      to: user.email,
+      subject: "Verify your CloudDrive email address",
+      text:
+        `Confirm that this is your email address to start sharing on CloudDrive:\n` +
+        `${CLIENT_URL}/verify-email?token=${encodeURIComponent(token)}\n\n` +
+        `The link is valid for 7 days. If you did not create an account, ignore this email.\n`,
+    });
+    return true;
+  } catch (err: any) {
+    console.error("Send verification email error:", err?.message || err);
+    return false;
+  }
+}
+
+/** Mail a password reset link. Never throws; returns whether it was sent. */
+export async function sendPasswordResetEmail(user: { id: string; email: string }): Promise<boolean> {
+  try {
+    const token = await issueAccountToken(user.id, user.email, "password_reset");
+    await mailer.send({
+      to: user.email,
+      subject: "Reset your CloudDrive password",
+      text:
+        `Someone asked to reset the password of your CloudDrive account. To choose a new password, open:\n` +
+        `${CLIENT_URL}/reset-password?token=${encodeURIComponent(token)}\n\n` +
+        `The link is valid for 1 hour and can be used once. If it wasn't you, ignore this email; ` +
+        `your password stays the same.\n`,
+    });
+    return true;
+  } catch (err: any) {
+    console.error("Send password reset email error:", err?.message || err);
+    return false;
+  }
+}
@@ -0,0 +1,114 @@
+// src/utils/copy.ts
+//
+// Server-side duplication of files and folder trees. Storage objects are
+// copied inside the storage backend; nothing passes through this process.
+import { supabase } from "../lib/supabase";
+import { storage } from "../lib/storage";
+import { adjustQuotaUsage } from "./quota";
+import { getDescendants } from "./tree";
+import { generateStorageFileName } from "./uploads";
+import { scheduleFileProcessing } from "../jobs/file-processing";
+
+export interface CopyPlan {
+  root: any;
+  // Descendants that will be copied, parent before child (empty for a plain
+  // file): live items whose folders up to the root are live too
+  descendants: any[];
+  bytes: number;
+  files: number;
+}
+
+// Work out what a copy would create so quota can be checked up front
+export async function planCopy(root: any): Promise<CopyPlan> {
+  const descendants: any[] = [];
+  if (root.is_folder) {
+    // Trashed items take their whole subtree out of the copy
+    const included = new Set<string>([root.id]);
+    for (const node of await getDescendants<any>(root.id, "*")) {
+      if (node.is_deleted || !included.has(node.parent_id)) continue;
+      included.add(node.id);
+      descendants.push(node);
+    }
+  }
+
+  let bytes = 0;
+  let files = 0;
+  for (const node of [root, ...descendants]) {
+    if (node.is_folder) continue;
+    bytes += Number(node.size ?? 0);
+    files++;
+  }
+
+  return { root, descendants, bytes, files };
+}
+
+function buildCopyRow(source: any, userId: string, parentId: string | null, name: string, path: string) {
+  return {
+    user_id: userId,
+    name,
+    original_name: name,
+    size: source.size ?? 0,
+    type: source.type,
+    mime_type: source.mime_type,
+    extension: source.extension,
+    is_folder: !!source.is_folder,
+    path,
+    parent_id: parentId,
+  };
+}
+
+async function copyNode(source: any, userId: string, parentId: string | null, name: string, copiedPaths: string[]) {
+  let path: string;
+  if (source.is_folder) {
+    path = `${userId}/folders/${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  } else {
+    path = `${userId}/${generateStorageFileName(source.original_name || source.name)}`;
+    await storage.copy(source.path, path);
+    copiedPaths.push(path);
+  }
+
+  const { data, error } = await supabase
+    .from("files")
+    .insert([buildCopyRow(source, userId, parentId, name, path)])
+    .select()
+    .single();
+  if (error) throw error;
+  if (!source.is_folder) scheduleFileProcessing(data);
+  return data;
+}
+
+/**
+ * Execute a copy plan into `targetParentId` owned by `userId`. On failure the
+ * objects and rows created so far are removed again.
+ */
+export async function executeCopy(plan: CopyPlan, userId: string, targetParentId: string | null, newName: string) {
+  const copiedPaths: string[] = [];
+  const createdIds: string[] = [];
+
+  try {
+    const rootCopy = await copyNode(plan.root, userId, targetParentId, newName, copiedPaths);
+    createdIds.push(rootCopy.id);
+
+    const idMap = new Map<string, string>([[plan.root.id, rootCopy.id]]);
+    for (const node of plan.descendants) {
+      const parentCopyId = idMap.get(node.parent_id);
+      if (!parentCopyId) continue; // not in the plan (see planCopy)
+      const copy = await copyNode(node, userId, parentCopyId, node.name, copiedPaths);
+      createdIds.push(copy.id);
+      idMap.set(node.id, copy.id);
+    }
+
+    await adjustQuotaUsage(userId, { storage: plan.bytes, files: plan.files });
+
+    return { root: rootCopy, ids: createdIds };
+  } catch (error) {
+    // Best effort rollback, children first
+    for (const id of createdIds.slice().reverse()) {
+      await supabase.from("files").delete().eq("id", id);
+    }
+    if (copiedPaths.length > 0) {
+      await storage.delete(copiedPaths).catch((err) => console.error("Copy rollback storage error:", err));
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,103 @@
+// src/utils/failed-attempts.ts
+//
+// Brute-force protection for secrets that can be guessed: passwords, 2FA
+// codes and public link passwords. Failures are counted per account and per
+// IP in the rate limit store. After a few free failures every attempt is
+// slowed down (doubling up to a cap); past the threshold the account or IP
+// is locked out for a while. A success clears the account's failures.
+import type { Request, Response } from "express";
+import { rateLimitStore } from "../lib/rate-limit";
+import { clientIp, sendTooManyRequests } from "../middlewares/rate-limit-middleware";
+
+const MINUTE = 60 * 1000;
+
+const POLICY = {
+  windowMs: 15 * MINUTE, // failures are remembered this long
+  freeFailures: 3, // before delays start
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  accountLockoutAfter: Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 10,
+  ipLockoutAfter: Number(process.env.LOGIN_IP_LOCKOUT_THRESHOLD) || 50,
+  lockoutMs: (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * MINUTE,
+};
+
+// What is being guessed: "login" (per email), "2fa" (per user), "link" (per public link)
+export type AttemptScope = "login" | "2fa" | "link";
+
+interface AttemptSubject {
+  ip: string;
+  account: string;
+}
+
+function keys(scope: AttemptScope, subject: AttemptSubject) {
+  const account = subject.account.trim().toLowerCase();
+  return {
+    accountFailures: `fail:${scope}:account:${account}`,
+    ipFailures: `fail:${scope}:ip:${subject.ip}`,
+    accountLock: `lock:${scope}:account:${account}`,
+    ipLock: `lock:${scope}:ip:${subject.ip}`,
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function attemptSubject(req: Request, account: string): AttemptSubject {
+  return { ip: clientIp(req), account };
+}
+
+/**
+ * Run before checking a guessable secret. Answers 429 and returns false while
+ * the account or IP is locked out; otherwise waits out the progressive delay
+ * and returns true. Store failures never block the attempt.
+ */
+export async function guardAttempt(res: Response, scope: AttemptScope, subject: AttemptSubject): Promise<boolean> {
+  try {
+    const k = keys(scope, subject);
+    const [accountLock, ipLock, failures] = await Promise.all([
+      rateLimitStore.get(k.accountLock),
+      rateLimitStore.get(k.ipLock),
+      rateLimitStore.get(k.accountFailures),
+    ]);
+    const lock = accountLock ?? ipLock;
+    if (lock) {
+      sendTooManyRequests(res, lock.resetAt, "Too many failed attempts, please try again later", "LOCKED_OUT");
+      return false;
+    }
+
+    const excess = (failures?.count ?? 0) - POLICY.freeFailures;
+    if (excess > 0) await sleep(Math.min(POLICY.baseDelayMs * 2 ** (excess - 1), POLICY.maxDelayMs));
+  } catch (error) {
+    console.error("Failed attempt guard error:", error);
+  }
+  return true;
+}
+
+/** Count a wrong guess; locks the account or IP once its threshold is reached. */
+export async function recordFailedAttempt(scope: AttemptScope, subject: AttemptSubject): Promise<void> {
+  try {
+    const k = keys(scope, subject);
+    const [account, ip] = await Promise.all([
+      rateLimitStore.increment(k.accountFailures, POLICY.windowMs),
+      rateLimitStore.increment(k.ipFailures, POLICY.windowMs),
+    ]);
+    if (account.count >= POLICY.accountLockoutAfter) {
+      await rateLimitStore.increment(k.accountLock, POLICY.lockoutMs);
+      await rateLimitStore.reset(k.accountFailures);
+    }
+    if (ip.count >= POLICY.ipLockoutAfter) {
+      await rateLimitStore.increment(k.ipLock, POLICY.lockoutMs);
+      await rateLimitStore.reset(k.ipFailures);
+    }
+  } catch (error) {
+    console.error("Record failed attempt error:", error);
+  }
+}
+
+/** Forget the account's failures after a correct guess. */
+export async function clearFailedAttempts(scope: AttemptScope, subject: AttemptSubject): Promise<void> {
+  try {
+    await rateLimitStore.reset(keys(scope, subject).accountFailures);
+  } catch (error) {
+    console.error("Clear failed attempts error:", error);
+  }
+}
@@ -0,0 +1,304 @@
+// src/utils/file-query.ts
+//
+// Filter parsing and query building for file listings. Used by
+// GET /api/files and by saved searches, which store a FileFilters object.
+import { supabase } from "../lib/supabase";
+import { activeShareFilter, getCurrentUserEmail } from "./permissions";
+import { authorizeFile } from "./policy";
+import { getDescendants } from "./tree";
+import { PageRequest, applyKeyset, nextKeysetCursor } from "./pagination";
+
+export const FILE_CATEGORIES: Record<string, string[]> = {
+  image: ["image/%"],
+  video: ["video/%"],
+  audio: ["audio/%"],
+  document: [
+    "application/pdf",
+    "application/msword",
+    "application/rtf",
+    "application/vnd.openxmlformats-officedocument.%",
+    "application/vnd.oasis.opendocument.%",
+    "application/vnd.ms-%",
+    "text/%",
+  ],
+  archive: [
+    "application/zip",
+    "application/x-zip-compressed",
+    "application/x-tar",
+    "application/gzip",
+    "application/x-7z-compressed",
+    "application/vnd.rar",
+    "application/x-rar-compressed",
+  ],
+};
+
+const VALID_SORT_FIELDS = ["name", "size", "created_at", "updated_at"];
+const MAX_RECURSIVE_FOLDERS = 1000;
+
+export interface FileFilters {
+  scope?: "mine" | "shared" | "all";
+  deleted?: boolean;
+  parentId?: string | null; // null = root
+  recursive?: boolean; // with parentId: the folder and everything below it
+  starred?: boolean;
+  search?: string;
+  categories?: string[];
+  mimeTypes?: string[];
+  extensions?: string[];
+  minSize?: number;
+  maxSize?: number;
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  owner?: string; // user id or email
+  sortBy?: string;
+  sortOrder?: "asc" | "desc";
+}
+
+export class FileQueryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+function list(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const items = (Array.isArray(value) ? value : String(value).split(","))
+    .map((v) => String(v).trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function bool(value: unknown): boolean | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  return String(value).toLowerCase() === "true";
+}
+
+function num(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) throw new FileQueryError(`Invalid ${field}`);
+  return n;
+}
+
+function date(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const d = new Date(String(value));
+  if (Number.isNaN(d.getTime())) throw new FileQueryError(`Invalid ${field}`);
+  return d.toISOString();
+}
+
+/**
+ * Validate and normalise filters from a query string or a saved search body.
+ * Throws FileQueryError on invalid values.
+ */
+export function parseFileFilters(input: Record<string, any>): FileFilters {
+  const filters: FileFilters = {};
+
+  const scope = input.scope ?? (bool(input.sharedWithMe) ? "shared" : undefined);
+  if (scope !== undefined) {
+    if (!["mine", "shared", "all"].includes(scope)) throw new FileQueryError('Invalid scope. Must be "mine", "shared" or "all"');
+    filters.scope = scope;
+  }
+
+  filters.deleted = bool(input.deleted);
+  filters.starred = bool(input.starred);
+  filters.recursive = bool(input.recursive);
+
+  if (input.parentId !== undefined) {
+    const raw = input.parentId === null ? "" : String(input.parentId);
+    filters.parentId = raw === "" || raw === "root" || raw === "null" ? null : raw;
+  }
+
+  const search = typeof input.search === "string" ? input.search.trim() : undefined;
+  if (search) filters.search = search;
+
+  const categories = list(input.category ?? input.categories);
+  if (categories) {
+    const unknown = categories.filter((c) => !FILE_CATEGORIES[c]);
+    if (unknown.length) throw new FileQueryError(`Unknown category: ${unknown.join(", ")}`);
+    filters.categories = categories;
+  }
+
+  filters.mimeTypes = list(input.mimeType ?? input.mimeTypes);
+  filters.extensions = list(input.extension ?? input.extensions)?.map((e) => e.replace(/^\./, "").toLowerCase());
+  filters.minSize = num(input.minSize, "minSize");
+  filters.maxSize = num(input.maxSize, "maxSize");
+  filters.createdAfter = date(input.createdAfter, "createdAfter");
+  filters.createdBefore = date(input.createdBefore, "createdBefore");
+  filters.updatedAfter = date(input.updatedAfter, "updatedAfter");
+  filters.updatedBefore = date(input.updatedBefore, "updatedBefore");
+  if (typeof input.owner === "string" && input.owner.trim()) filters.owner = input.owner.trim();
+
+  if (typeof input.sortBy === "string") filters.sortBy = input.sortBy;
+  if (input.sortOrder === "asc" || input.sortOrder === "desc") filters.sortOrder = input.sortOrder;
+
+  // Drop unset keys so saved searches stay compact
+  (Object.keys(filters) as (keyof FileFilters)[]).forEach((k) => filters[k] === undefined && delete filters[k]);
+  return filters;
+}
+
+// Ids of files shared directly with the user (unexpired user shares, not public links)
+export async function getSharedFileIds(userId: string): Promise<string[]> {
+  const email = await getCurrentUserEmail(userId);
+  if (!email) return [];
+  const { data, error } = await supabase
+    .from("shares")
+    .select("file_id")
+    .eq("shared_with_email", email)
+    .eq("status", "active")
+    .or(activeShareFilter());
+  if (error) throw error;
+  return Array.from(new Set((data ?? []).map((s: any) => s.file_id as string)));
+}
+
+async function resolveOwnerId(owner: string): Promise<string | null> {
+  const column = owner.includes("@") ? "email" : "id";
+  const { data } = await supabase.from("profiles").select("id").eq(column, owner).maybeSingle();
+  return data?.id ?? null;
+}
+
+/**
+ * Run a file listing for `userId`. With `page` this returns the shape GET
+ * /api/files has always returned; with a `cursor` it returns `nextCursor`
+ * instead of `page`.
+ */
+export async function queryFiles(userId: string, filters: FileFilters, pageRequest: PageRequest) {
+  const { page, limit, cursor } = pageRequest;
+  const keyset = cursor !== undefined;
+  const empty = keyset
+    ? { files: [], limit, nextCursor: null, total: 0, fts: false }
+    : { files: [], page, limit, total: 0, fts: false };
+  const scope = filters.scope ?? "mine";
+
+  // Base query
+  let select: any = supabase.from("files").select("*", { count: "exact" });
+
+  // Browsing into a folder: everything inside a folder the user can view is
+  // visible to them (shares are inherited), whoever owns it
+  let browsingShared = false;
+  if (filters.parentId) {
+    const access = await authorizeFile(userId, filters.parentId, "read");
+    if (!access.allowed) throw new FileQueryError("Folder not found", 404);
+    browsingShared = access.role !== "owner";
+  }
+
+  // Scope: own files, files shared with me, or both (not applied inside a
+  // shared folder, where the folder itself is the scope)
+  if (!browsingShared && scope === "mine") {
+    select = select.eq("user_id", userId);
+  } else if (!browsingShared) {
+    const sharedIds = await getSharedFileIds(userId);
+    if (scope === "shared") {
+      if (sharedIds.length === 0) return empty;
+      select = select.in("id", sharedIds);
+    } else {
+      select = sharedIds.length
+        ? select.or(`user_id.eq.${userId},id.in.(${sharedIds.join(",")})`)
+        : select.eq("user_id", userId);
+    }
+  }
+
+  if (filters.owner) {
+    const ownerId = await resolveOwnerId(filters.owner);
+    if (!ownerId) return empty;
+    select = select.eq("user_id", ownerId);
+  }
+
+  // Deleted filter. Trash is private to the owner: sharees never see
+  // trashed items, whichever way they list them.
+  if (browsingShared) {
+    select = select.eq("is_deleted", false);
+  } else {
+    select = select.eq("is_deleted", filters.deleted ?? false);
+    if (filters.deleted && scope !== "mine") select = select.eq("user_id", userId);
+  }
+
+  // Parent folder filter, optionally including every subfolder
+  if (filters.parentId !== undefined) {
+    if (filters.parentId === null) {
+      // Supabase needs .is for NULL
+      select = filters.recursive ? select : select.is("parent_id", null);
+    } else if (filters.recursive) {
+      const folders = (await getDescendants(filters.parentId)).filter((n) => n.is_folder).map((n) => n.id);
+      if (folders.length + 1 > MAX_RECURSIVE_FOLDERS) {
+        throw new FileQueryError(`Folder has too many subfolders for a recursive listing (max ${MAX_RECURSIVE_FOLDERS})`);
+      }
+      select = select.in("parent_id", [filters.parentId, ...folders]);
+    } else {
+      select = select.eq("parent_id", filters.parentId);
+    }
+  }
+
+  // Starred filter
+  if (filters.starred) select = select.eq("is_starred", true);
+
+  // Type filters: categories and explicit MIME types are OR-ed together
+  const mimePatterns = [
+    ...(filters.categories ?? []).flatMap((c) => FILE_CATEGORIES[c]),
+    ...(filters.mimeTypes ?? []),
+  ];
+  if (mimePatterns.length > 0) {
+    select = select.or(
+      mimePatterns.map((m) => (m.includes("%") ? `mime_type.like.${m}` : `mime_type.eq.${m}`)).join(",")
+    );
+  }
+  if (filters.extensions?.length) select = select.in("extension", filters.extensions);
+
+  // Size and date ranges
+  if (filters.minSize !== undefined) select = select.gte("size", filters.minSize);
+  if (filters.maxSize !== undefined) select = select.lte("size", filters.maxSize);
+  if (filters.createdAfter) select = select.gte("created_at", filters.createdAfter);
+  if (filters.createdBefore) select = select.lte("created_at", filters.createdBefore);
+  if (filters.updatedAfter) select = select.gte("updated_at", filters.updatedAfter);
+  if (filters.updatedBefore) select = select.lte("updated_at", filters.updatedBefore);
+
+  // Search: prefer FTS when enabled, fallback to ILIKE
+  const search = filters.search;
+  let useFTS = false;
+  if (search && search.length > 1 && String(process.env.USE_FTS || 'false').toLowerCase() === 'true') {
+    useFTS = true;
+  }
+
+  // Ordering (offset pages) or ordering + position (cursor pages)
+  const sortField = VALID_SORT_FIELDS.includes(filters.sortBy ?? "") ? (filters.sortBy as string) : "created_at";
+  const ascending = filters.sortOrder === "asc";
+  if (keyset) {
+    select = applyKeyset(select, sortField, ascending, cursor);
+  } else {
+    select = select.order(sortField, { ascending });
+  }
+
+  const from = keyset ? 0 : (page - 1) * limit;
+  const to = from + limit - 1;
+  const result = (files: any[] | null, count: number | null, fts: boolean) =>
+    keyset
+      ? { files, limit, nextCursor: nextKeysetCursor(files, sortField, limit), total: count ?? files?.length ?? 0, fts }
+      : { files, page, limit, total: count ?? files?.length ?? 0, fts };
+
+  if (useFTS) {
+    try {
+      // Try FTS on a tsvector column named 'search_vector'
+      const ftsSelect = select.textSearch('search_vector', search, { config: 'english' });
+      const { data: files, error, count } = await ftsSelect.range(from, to);
+      if (!error) {
+        return result(files, count, true);
+      }
+      // If FTS fails, fall back to ILIKE
+      console.warn('FTS failed, falling back to ILIKE:', error?.message);
+    } catch (e) {
+      console.warn('FTS not available, falling back to ILIKE');
+    }
+  }
+
+  // Fallback/basic search (ILIKE on name and original_name)
+  if (search && search.length > 1) {
+    select = select.or(`name.ilike.%${search}% , original_name.ilike.%${search}%`);
+  }
+
+  const { data: files, error, count } = await select.range(from, to);
+  if (error) throw error;
+
+  return result(files, count, false);
+}
@@ -1,5 +1,5 @@
 // src/utils/helpers.ts
-import { supabase } from "../lib/supabase";
+import { storage } from "../lib/storage";
 
 /**
  * Generate a unique filename
@@ -15,6 +15,14 @@ export const generateUniqueFileName = (originalName: string): string => {
     : `${timestamp}-${randomString}`;
 };
 
+/**
+ * Get the extension of a file name (without the dot)
+ */
+export const getFileExt = (name: string): string | null => {
+  const parts = name.split(".");
+  return parts.length > 1 ? parts.pop() || null : null;
+};
+
 /**
  * Get file size in human-readable format
  */
@@ -46,84 +54,13 @@ export const getSignedUrl = async (
   expiresIn: number = 3600
 ): Promise<string | null> => {
   try {
-    const { data, error } = await supabase.storage
-      .from("files")
-      .createSignedUrl(filePath, expiresIn);
-
-    if (error) {
-      console.error("Error creating signed URL:", error.message);
-      return null;
-    }
-
-    return data?.signedUrl ?? null;
+    return await storage.getSignedUrl(filePath, expiresIn);
   } catch (error) {
     console.error("Error in getSignedUrl:", error);
     return null;
   }
 };
 
-/**
- * Check if user has permission to access a file
- */
-export const checkFilePermission = async (
-  fileId: string,
-  userId: string,
-  requiredPermission: "view" | "edit" = "view"
-): Promise<boolean> => {
-  try {
-    // Check if user owns the file
-    const { data: file, error: fileError } = await supabase
-      .from("files")
-      .select("user_id")
-      .eq("id", fileId)
-      .single();
-
-    if (fileError || !file) {
-      return false;
-    }
-
-    if (file.user_id === userId) {
-      return true; // Owner always has full permissions
-    }
-
-    // Get user email (profiles table)
-    const { data: user, error: userError } = await supabase
-      .from("profiles")
-      .select("email")
-      .eq("id", userId)
-      .single();
-
-    if (userError || !user) {
-      return false;
-    }
-
-    // Check if file is shared with this user
-    const { data: share, error: shareError } = await supabase
-      .from("shares")
-      .select("permissions")
-      .eq("file_id", fileId)
-      .eq("shared_with_email", user.email)
-      .maybeSingle();
-
-    if (shareError || !share) {
-      return false;
-    }
-
-    if (requiredPermission === "view") {
-      return ["view", "edit"].includes(share.permissions); // edit implies view
-    }
-
-    if (requiredPermission === "edit") {
-      return share.permissions === "edit";
-    }
-
-    return false;
-  } catch (error) {
-    console.error("Error checking file permission:", error);
-    return false;
-  }
-};
-
 /**
  * Clean up expired signed URLs (for scheduled jobs)
  */
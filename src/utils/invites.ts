@@ -0,0 +1,95 @@
+// src/utils/invites.ts
+//
+// Shares to emails without an account. The share row is stored against the
+// email with status 'pending' and an invite is mailed; when that email is
+// verified (verification link, password reset or Google sign-in) the pending
+// shares become active.
+import type { Server } from "socket.io";
+import { supabase } from "../lib/supabase";
+import { mailer } from "../lib/mailer";
+import { emitToUsers, notifyUsers } from "./notifications";
+
+const CLIENT_URL = process.env.CLIENT_URL || "https://cloud-drive-frontend-six.vercel.app";
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+/**
+ * Mail an invitation for a pending share. Never throws: the share exists
+ * either way and the owner can cancel and re-invite.
+ */
+export async function sendShareInvite(invite: {
+  email: string;
+  ownerId: string;
+  fileName: string;
+  isFolder: boolean;
+  permissions: string;
+}): Promise<boolean> {
+  try {
+    const { data: owner } = await supabase
+      .from("profiles")
+      .select("email, first_name, last_name")
+      .eq("id", invite.ownerId)
+      .maybeSingle();
+    const ownerName = [owner?.first_name, owner?.last_name].filter(Boolean).join(" ") || owner?.email || "Someone";
+    const what = invite.isFolder ? "folder" : "file";
+    const signupUrl = `${CLIENT_URL}/signup?email=${encodeURIComponent(invite.email)}`;
+    const access = invite.permissions === "view" ? "view" : "edit";
+
+    await mailer.send({
+      to: invite.email,
+      subject: `${ownerName} shared "${invite.fileName}" with you`,
+      text:
+        `${ownerName} shared the ${what} "${invite.fileName}" with you on CloudDrive (can ${access}).\n\n` +
+        `Create an account with this email address to open it:\n${signupUrl}\n`,
+    });
+    return true;
+  } catch (err: any) {
+    console.error("Send share invite error:", err?.message || err);
+    return false;
+  }
+}
+
+/**
+ * Activate every pending share for a user who just proved their address.
+ * Owners get `share:invite_accepted`, the user gets the usual share
+ * notifications. Returns the number of shares attached.
+ */
+export async function attachPendingShares(io: Server | undefined, user: { id: string; email: string }): Promise<number> {
+  const { data: shares, error } = await supabase
+    .from("shares")
+    .update({ status: "active", accepted_at: new Date().toISOString() })
+    .eq("shared_with_email", user.email)
+    .eq("status", "pending")
+    .select("id, file_id, owner_id, permissions, files ( name, is_folder )");
+  if (error) {
+    console.error("Attach pending shares error:", error.message);
+    return 0;
+  }
+
+  for (const share of (shares ?? []) as any[]) {
+    const payload = {
+      id: share.id,
+      file_id: share.file_id,
+      shared_with_email: user.email,
+      permissions: share.permissions,
+    };
+    emitToUsers(io, [share.owner_id], "share:invite_accepted", payload);
+    emitToUsers(io, [user.id], "share:created", { ...payload, file_name: share.files?.name });
+    await notifyUsers(io, [user.id], {
+      type: "share_received",
+      actorId: share.owner_id,
+      fileId: share.file_id,
+      data: { share_id: share.id, name: share.files?.name, is_folder: !!share.files?.is_folder, permissions: share.permissions },
+    });
+    await notifyUsers(io, [share.owner_id], {
+      type: "invite_accepted",
+      actorId: user.id,
+      fileId: share.file_id,
+      data: { share_id: share.id, name: share.files?.name, email: user.email },
+    });
+  }
+
+  return shares?.length ?? 0;
+}
@@ -0,0 +1,100 @@
+// src/utils/notifications.ts
+//
+// Realtime fan-out plus persistent notifications. Socket events only reach
+// users who are connected; every notification is also stored so offline
+// users see what they missed (GET /api/notifications).
+import type { Server } from "socket.io";
+import { supabase } from "../lib/supabase";
+import { getFileAudience } from "./permissions";
+
+export type NotificationType =
+  | "share_received"
+  | "share_updated"
+  | "share_revoked"
+  | "share_expired"
+  | "file_updated"
+  | "file_deleted"
+  | "file_version"
+  | "invite_accepted"
+  | "file_request_upload"
+  | "transfer_requested"
+  | "transfer_accepted"
+  | "transfer_declined"
+  | "access_requested"
+  | "access_approved"
+  | "access_denied";
+
+export interface NotificationInput {
+  type: NotificationType;
+  actorId?: string | null;
+  fileId?: string | null;
+  data?: Record<string, any>;
+}
+
+// Emit one event to several users' rooms
+export function emitToUsers(io: Server | undefined, userIds: string[], event: string, payload: any): void {
+  if (!io || userIds.length === 0) return;
+  io.to(Array.from(new Set(userIds)).map((id) => `user:${id}`)).emit(event, payload);
+}
+
+/**
+ * Store a notification for each user and push it as `notification:created`.
+ * Never throws: a failed notification must not fail the request behind it.
+ */
+export async function notifyUsers(io: Server | undefined, userIds: string[], input: NotificationInput): Promise<void> {
+  const recipients = Array.from(new Set(userIds)).filter(Boolean);
+  if (recipients.length === 0) return;
+
+  const { data, error } = await supabase
+    .from("notifications")
+    .insert(
+      recipients.map((userId) => ({
+        user_id: userId,
+        type: input.type,
+        actor_id: input.actorId ?? null,
+        file_id: input.fileId ?? null,
+        data: input.data ?? {},
+      }))
+    )
+    .select("id, user_id, type, actor_id, file_id, data, read_at, created_at");
+  if (error) {
+    console.error("Create notifications error:", error.message);
+    return;
+  }
+
+  for (const row of data ?? []) {
+    io?.to(`user:${row.user_id}`).emit("notification:created", row);
+  }
+}
+
+/**
+ * Send a file event to everyone who can see the file and, when
+ * `notification` is given, notify all of them except the actor. Pass the
+ * audience when it must be computed before the change (permanent delete).
+ */
+export async function broadcastFileEvent(
+  io: Server | undefined,
+  options: {
+    fileId: string;
+    actorId: string;
+    event: string;
+    payload: any;
+    subtreeIds?: string[];
+    audience?: string[];
+    notification?: Omit<NotificationInput, "actorId" | "fileId">;
+  }
+): Promise<void> {
+  try {
+    const audience = options.audience ?? (await getFileAudience(options.fileId, options.subtreeIds));
+    emitToUsers(io, [options.actorId, ...audience], options.event, options.payload);
+    if (options.notification) {
+      await notifyUsers(
+        io,
+        audience.filter((id) => id !== options.actorId),
+        { ...options.notification, actorId: options.actorId, fileId: options.fileId }
+      );
+    }
+  } catch (err: any) {
+    console.error(`Broadcast ${options.event} error:`, err?.message || err);
+  }
+}
@@ -0,0 +1,79 @@
+// src/utils/pagination.ts
+//
+// Page/limit parsing shared by the list endpoints, plus keyset (cursor)
+// pagination. Offsets skip or repeat rows when files are created or removed
+// between requests; a cursor instead remembers the sort value and id of the
+// last row returned and continues strictly after it.
+
+export interface PageRequest {
+  page: number;
+  limit: number;
+  // Present (possibly empty, meaning "first page") when the client opted in
+  // to cursor pagination
+  cursor?: string;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+  }
+}
+
+export function parsePageRequest(query: Record<string, any>): PageRequest {
+  const page = Math.max(1, parseInt(String(query.page ?? "1"), 10) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(String(query.limit ?? "20"), 10) || 20));
+  const cursor = typeof query.cursor === "string" ? query.cursor : undefined;
+  return { page, limit, cursor };
+}
+
+// Cursors are opaque to clients: base64url-encoded JSON
+export function encodeCursor(value: Record<string, any>): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+export function decodeCursor<T extends Record<string, any>>(cursor: string): T {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (!value || typeof value !== "object") throw new Error();
+    return value as T;
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+interface KeysetCursor {
+  v: string | number | null; // sort value of the last row
+  id: string;
+}
+
+// PostgREST filter value, quoted so commas/parentheses in names are literal
+function quote(value: string | number): string {
+  return `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Order `select` by `sortField` then id and, when `cursor` is non-empty,
+ * keep only rows after it. NULL sort values always come last.
+ */
+export function applyKeyset(select: any, sortField: string, ascending: boolean, cursor: string | undefined): any {
+  select = select.order(sortField, { ascending, nullsFirst: false }).order("id", { ascending: true });
+  if (!cursor) return select;
+
+  const { v, id } = decodeCursor<KeysetCursor>(cursor);
+  if (typeof id !== "string") throw new InvalidCursorError();
+
+  if (v === null || v === undefined) {
+    return select.is(sortField, null).gt("id", id);
+  }
+  const op = ascending ? "gt" : "lt";
+  return select.or(
+    `${sortField}.${op}.${quote(v)},and(${sortField}.eq.${quote(v)},id.gt.${quote(id)}),${sortField}.is.null`
+  );
+}
+
+// Cursor for the page after `rows`, or null when this was the last page
+export function nextKeysetCursor(rows: any[] | null | undefined, sortField: string, limit: number): string | null {
+  if (!rows || rows.length < limit) return null;
+  const last = rows[rows.length - 1];
+  return encodeCursor({ v: last[sortField] ?? null, id: last.id });
+}
@@ -1,7 +1,8 @@
 // backend/src/utils/permissions.ts
 import { supabase } from "../lib/supabase";
+import { chunk, getAncestorIds } from "./tree";
 
-export type PermissionLevel = "view" | "edit" | "owner";
+export type PermissionLevel = "view" | "edit" | "admin" | "owner";
 
 // Fetch current user's email (from profiles)
 export async function getCurrentUserEmail(userId: string): Promise<string | null> {
@@ -14,55 +15,95 @@ export async function getCurrentUserEmail(userId: string): Promise<string | null
   return user.email as string;
 }
 
-// Check if the user is the owner of the file
-export async function isOwner(userId: string, fileId: string): Promise<boolean> {
-  const { data, error } = await supabase
-    .from("files")
-    .select("id")
-    .eq("id", fileId)
-    .eq("user_id", userId)
-    .maybeSingle();
-  if (error) return false;
-  return !!data;
+// Resolve a registered user's id from their email (null when not registered)
+export async function getUserIdByEmail(email: string): Promise<string | null> {
+  if (!email) return null;
+  const { data, error } = await supabase.from("profiles").select("id").eq("email", email).maybeSingle();
+  if (error || !data) return null;
+  return data.id as string;
 }
 
-// Check whether a user has at least the required permission on a file
-export async function hasFilePermission(
-  userId: string,
-  fileId: string,
-  needed: PermissionLevel
-): Promise<{ allowed: boolean; level: PermissionLevel | null }> {
-  // Owner always allowed
-  if (await isOwner(userId, fileId)) {
-    return { allowed: true, level: "owner" };
-  }
+// PostgREST filter matching shares that have not expired yet
+export function activeShareFilter(): string {
+  return `expires_at.is.null,expires_at.gt.${new Date().toISOString()}`;
+}
 
-  if (needed === "owner") {
-    return { allowed: false, level: null };
-  }
+// Levels ranked from least to most permissive; what each level may do is
+// defined in ./policy
+const LEVEL_RANK: Record<PermissionLevel, number> = { view: 1, edit: 2, admin: 3, owner: 4 };
+const SHARE_LEVELS: PermissionLevel[] = ["view", "edit", "admin"];
+
+/**
+ * Resolve the caller's level on a file: "owner", the best share level, or
+ * null when they have no access. Returns null when the file does not exist.
+ *
+ * Shares are inherited: a share on a folder applies to everything below it,
+ * so the file and all of its ancestors (via parent_id) are considered. When
+ * several of them are shared with the user, the most permissive share wins,
+ * wherever it sits in the chain. A share only ever grants access, so a
+ * narrower share on a subfolder cannot take away what a share higher up gave.
+ * Shares past their expires_at are ignored.
+ */
+export async function resolveFileAccess(
+  userId: string,
+  fileId: string
+): Promise<{ ownerId: string; level: PermissionLevel | null } | null> {
+  const { data: file, error: fErr } = await supabase.from("files").select("user_id").eq("id", fileId).maybeSingle();
+  if (fErr || !file) return null;
+  const ownerId = file.user_id as string;
+  if (ownerId === userId) return { ownerId, level: "owner" };
 
-  // Otherwise, check share permissions by email
+  // Otherwise, check share permissions by email on the file and its ancestors
   const email = await getCurrentUserEmail(userId);
-  if (!email) return { allowed: false, level: null };
+  if (!email) return { ownerId, level: null };
 
-  const { data: share, error } = await supabase
+  const chain = await getAncestorIds(fileId);
+
+  const { data: shares, error } = await supabase
     .from("shares")
     .select("permissions")
-    .eq("file_id", fileId)
+    .in("file_id", chain)
     .eq("shared_with_email", email)
-    .maybeSingle();
+    .eq("status", "active") // invitations wait until the address is verified
+    .or(activeShareFilter()); // expired shares grant nothing, swept or not
 
-  if (error || !share) return { allowed: false, level: null };
+  if (error || !shares || shares.length === 0) return { ownerId, level: null };
 
-  const perm = (share as any).permissions as "view" | "edit" | "admin";
-  const level: PermissionLevel = perm === "view" ? "view" : "edit"; // treat admin as edit
+  const best = Math.max(
+    ...shares.map((s: any) => (SHARE_LEVELS.includes(s.permissions) ? LEVEL_RANK[s.permissions as PermissionLevel] : 0))
+  );
+  return { ownerId, level: best === 0 ? null : SHARE_LEVELS[best - 1] };
+}
 
-  if (needed === "view") {
-    return { allowed: true, level };
-  }
-  if (needed === "edit") {
-    return { allowed: level === "edit", level };
+/**
+ * Ids of every user who can see `fileId`: its owner plus the registered
+ * recipients of active, unexpired shares on the file or any folder above it. Pass
+ * `subtreeIds` for folder operations so shares on items inside count too.
+ */
+export async function getFileAudience(fileId: string, subtreeIds: string[] = []): Promise<string[]> {
+  const { data: file, error } = await supabase.from("files").select("user_id").eq("id", fileId).maybeSingle();
+  if (error) throw error;
+  if (!file) return [];
+
+  const fileIds = Array.from(new Set([...(await getAncestorIds(fileId)), ...subtreeIds]));
+  const emails = new Set<string>();
+  for (const batch of chunk(fileIds)) {
+    const { data: shares, error: sErr } = await supabase
+      .from("shares")
+      .select("shared_with_email")
+      .in("file_id", batch)
+      .neq("shared_with_email", "")
+      .eq("status", "active")
+      .or(activeShareFilter());
+    if (sErr) throw sErr;
+    for (const s of shares ?? []) emails.add((s as any).shared_with_email);
   }
 
-  return { allowed: false, level: null };
-}
\ No newline at end of file
+  const userIds = new Set<string>([file.user_id]);
+  for (const batch of chunk(Array.from(emails))) {
+    const { data: profiles, error: pErr } = await supabase.from("profiles").select("id").in("email", batch);
+    if (pErr) throw pErr;
+    for (const p of profiles ?? []) userIds.add((p as any).id);
+  }
+  return Array.from(userIds);
+}
@@ -0,0 +1,85 @@
+// src/utils/personal-tokens.ts
+//
+// Personal access tokens for scripts and integrations. A token is shown once
+// at creation; only its SHA-256 is stored. Tokens act as their owner but
+// only within their scopes (see requireScope in
+// src/middlewares/scope-middleware.ts) and never on account or security
+// endpoints.
+import crypto from "crypto";
+import { supabase } from "../lib/supabase";
+
+export const TOKEN_PREFIX = "cdp_";
+
+export const TOKEN_SCOPES = ["files:read", "files:write", "shares:manage"] as const;
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+export const PERSONAL_TOKEN_COLUMNS = "id, name, token_prefix, scopes, expires_at, last_used_at, last_used_ip, created_at, revoked_at";
+
+// last_used_at is written at most this often per token
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function isPersonalAccessToken(token: string): boolean {
+  return token.startsWith(TOKEN_PREFIX);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function isTokenScope(value: unknown): value is TokenScope {
+  return (TOKEN_SCOPES as readonly unknown[]).includes(value);
+}
+
+/** Create a token. Returns the plain token (shown once) and the stored row. */
+export async function createPersonalAccessToken(
+  userId: string,
+  input: { name: string; scopes: TokenScope[]; expiresAt: string | null }
+) {
+  const token = TOKEN_PREFIX + crypto.randomBytes(32).toString("base64url");
+  const { data, error } = await supabase
+    .from("personal_access_tokens")
+    .insert({
+      user_id: userId,
+      name: input.name,
+      token_hash: hashToken(token),
+      token_prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      scopes: Array.from(new Set(input.scopes)),
+      expires_at: input.expiresAt,
+    })
+    .select(PERSONAL_TOKEN_COLUMNS)
+    .single();
+  if (error) throw error;
+  return { token, record: data };
+}
+
+/**
+ * Resolve a presented token to its owner and scopes. Returns null for
+ * unknown, revoked or expired tokens. Records when and from where it was
+ * last used.
+ */
+export async function authenticatePersonalAccessToken(
+  token: string,
+  ip?: string
+): Promise<{ id: string; userId: string; scopes: TokenScope[] } | null> {
+  const { data, error } = await supabase
+    .from("personal_access_tokens")
+    .select("id, user_id, scopes, expires_at, last_used_at, revoked_at")
+    .eq("token_hash", hashToken(token))
+    .maybeSingle();
+  if (error) throw error;
+  if (!data || data.revoked_at) return null;
+  if (data.expires_at && new Date(data.expires_at).getTime() <= Date.now()) return null;
+
+  if (!data.last_used_at || Date.now() - new Date(data.last_used_at).getTime() > LAST_USED_RESOLUTION_MS) {
+    // Bookkeeping only; never fail the request over it
+    supabase
+      .from("personal_access_tokens")
+      .update({ last_used_at: new Date().toISOString(), last_used_ip: ip ?? null })
+      .eq("id", data.id)
+      .then(({ error: updateError }) => {
+        if (updateError) console.error("Token last-used update error:", updateError.message);
+      });
+  }
+
+  return { id: data.id, userId: data.user_id, scopes: (data.scopes ?? []).filter(isTokenScope) };
+}
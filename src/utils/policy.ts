@@ -0,0 +1,54 @@
+// src/utils/policy.ts
+//
+// Authorization policy for files: which actions each role may perform.
+// Routes never filter on user_id to decide access; they name an action and
+// let requireFileAccess (src/middlewares/policy-middleware.ts) or
+// authorizeFile resolve the caller's role and consult FILE_POLICY.
+import { PermissionLevel, resolveFileAccess } from "./permissions";
+
+/**
+ * - read: see the item, list a folder's contents, thumbnails
+ * - download: download, ZIP, copy into your own drive
+ * - write: rename; upload files and create folders inside a folder
+ * - version: upload, list and restore versions
+ * - share: add, change and revoke user shares
+ * - delete: trash and restore; move within the owner's folders
+ * - manage: star, move to the root, delete permanently, public links, file
+ *   requests and ownership transfers
+ */
+export type FileAction = "read" | "download" | "write" | "version" | "share" | "delete" | "manage";
+
+// Share levels plus the owner, and anonymous visitors of a public link
+export type FileRole = PermissionLevel | "public-link";
+
+export const FILE_POLICY: Readonly<Record<FileRole, readonly FileAction[]>> = {
+  owner: ["read", "download", "write", "version", "share", "delete", "manage"],
+  admin: ["read", "download", "write", "version", "share", "delete"],
+  edit: ["read", "download", "write", "version"],
+  view: ["read", "download"],
+  "public-link": ["read", "download"],
+};
+
+export function can(role: FileRole | null | undefined, action: FileAction): boolean {
+  return !!role && FILE_POLICY[role].includes(action);
+}
+
+// Public links can additionally be made preview-only (allow_download = false)
+export function canViaPublicLink(link: { allow_download?: boolean | null }, action: FileAction): boolean {
+  if (action === "download" && link.allow_download === false) return false;
+  return can("public-link", action);
+}
+
+export interface FileAccess {
+  fileId: string;
+  ownerId: string | null; // null when the file does not exist
+  role: PermissionLevel | null; // null when the caller has no access at all
+  allowed: boolean;
+}
+
+// Resolve the caller's role on a file and check one action against the policy
+export async function authorizeFile(userId: string, fileId: string, action: FileAction): Promise<FileAccess> {
+  const access = await resolveFileAccess(userId, fileId);
+  const role = access?.level ?? null;
+  return { fileId, ownerId: access?.ownerId ?? null, role, allowed: can(role, action) };
+}
@@ -0,0 +1,111 @@
+// src/utils/public-links.ts
+//
+// Options and bookkeeping for public links (shares with share_type
+// 'public'): optional password, download limit, preview-only mode and
+// access counters.
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import { supabase } from "../lib/supabase";
+
+const ACCESS_TOKEN_TTL = "30m";
+const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+
+export const PUBLIC_LINK_COLUMNS =
+  "id, file_id, public_token, expires_at, password_hash, max_downloads, download_count, allow_download, access_count, last_accessed_at, created_at";
+
+// What owners see; never includes the password hash
+export function toPublicLink(share: any) {
+  return {
+    id: share.id,
+    file_id: share.file_id,
+    token: share.public_token,
+    expires_at: share.expires_at ?? null,
+    has_password: !!share.password_hash,
+    allow_download: share.allow_download !== false,
+    max_downloads: share.max_downloads ?? null,
+    download_count: share.download_count ?? 0,
+    access_count: share.access_count ?? 0,
+    last_accessed_at: share.last_accessed_at ?? null,
+    created_at: share.created_at,
+  };
+}
+
+/**
+ * Validate link options from a create/edit body into column values. Only
+ * fields present in the body are returned; `null` clears password, limit
+ * and expiry. Returns an error message for invalid input.
+ */
+export async function parsePublicLinkOptions(body: Record<string, any>): Promise<{ update: Record<string, any> } | { error: string }> {
+  const update: Record<string, any> = {};
+
+  if (body.password !== undefined) {
+    if (body.password === null || body.password === "") {
+      update.password_hash = null;
+    } else if (typeof body.password !== "string" || body.password.length < 4) {
+      return { error: "Password must be at least 4 characters" };
+    } else {
+      update.password_hash = await bcrypt.hash(body.password, 10);
+    }
+  }
+
+  if (body.maxDownloads !== undefined) {
+    if (body.maxDownloads === null) {
+      update.max_downloads = null;
+    } else if (!Number.isInteger(body.maxDownloads) || body.maxDownloads < 1) {
+      return { error: "maxDownloads must be a positive integer" };
+    } else {
+      update.max_downloads = body.maxDownloads;
+    }
+  }
+
+  if (body.allowDownload !== undefined) {
+    if (typeof body.allowDownload !== "boolean") return { error: "allowDownload must be a boolean" };
+    update.allow_download = body.allowDownload;
+  }
+
+  if (body.expiresAt !== undefined) {
+    if (body.expiresAt === null || body.expiresAt === "") {
+      update.expires_at = null;
+    } else {
+      const date = new Date(String(body.expiresAt));
+      if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) return { error: "expiresAt must be a future date" };
+      update.expires_at = date.toISOString();
+    }
+  }
+
+  return { update };
+}
+
+export async function verifyLinkPassword(share: { password_hash?: string | null }, password: string): Promise<boolean> {
+  if (!share.password_hash) return true;
+  return bcrypt.compare(password, share.password_hash);
+}
+
+// Short-lived proof that the link password was entered, bound to one link
+export function issueLinkAccessToken(shareId: string): string {
+  return jwt.sign({ shareId, purpose: "public-link" }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+}
+
+export function verifyLinkAccessToken(token: string | undefined, shareId: string): boolean {
+  if (!token) return false;
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { shareId?: string; purpose?: string };
+    return decoded.purpose === "public-link" && decoded.shareId === shareId;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Count an access to a link. With `download` the download counter is
+ * incremented too, atomically against max_downloads; returns false when the
+ * limit has been reached.
+ */
+export async function recordLinkAccess(shareId: string, download: boolean): Promise<boolean> {
+  const { data, error } = await supabase.rpc("record_public_link_access", {
+    p_share_id: shareId,
+    p_download: download,
+  });
+  if (error) throw error;
+  return data === true;
+}
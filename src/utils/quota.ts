@@ -0,0 +1,108 @@
+// src/utils/quota.ts
+import { supabase } from "../lib/supabase";
+
+export async function enforceQuotaOnUpload(userId: string, newFileSize: number, newFileCount: number = 1) {
+  // Fetch quota row
+  const { data: quota } = await supabase
+    .from("user_quotas")
+    .select("storage_used, storage_limit, file_count, file_count_limit")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  const storageLimit = quota?.storage_limit ?? 5 * 1024 * 1024 * 1024; // 5GB default
+  const storageUsed = quota?.storage_used ?? 0;
+  const fileCount = quota?.file_count ?? 0;
+  const fileCountLimit = quota?.file_count_limit ?? 10000;
+
+  if (storageUsed + newFileSize > storageLimit) {
+    return {
+      allowed: false,
+      reason: `Storage limit exceeded. Used ${(storageUsed / (1024 * 1024)).toFixed(2)}MB / ${(storageLimit / (1024 * 1024)).toFixed(2)}MB. File adds ${(newFileSize / (1024 * 1024)).toFixed(2)}MB.`,
+      code: "STORAGE_LIMIT_EXCEEDED",
+    } as const;
+  }
+
+  if (fileCount + newFileCount > fileCountLimit) {
+    return {
+      allowed: false,
+      reason: `File count limit exceeded (${fileCountLimit}).` ,
+      code: "FILE_COUNT_LIMIT_EXCEEDED",
+    } as const;
+  }
+
+  return { allowed: true } as const;
+}
+
+// ------------------------------
+// Usage ledger
+// ------------------------------
+// storage_used / file_count are adjusted through the `adjust_user_quota`
+// Postgres function so concurrent requests never lose an update. Any drift
+// (e.g. a failed adjustment after a successful upload) is repaired by the
+// recompute job in src/jobs/recompute-quotas.ts.
+
+export interface QuotaDelta {
+  storage: number; // bytes
+  files: number;
+}
+
+export async function adjustQuotaUsage(userId: string, delta: QuotaDelta): Promise<void> {
+  if (!delta.storage && !delta.files) return;
+  const { error } = await supabase.rpc("adjust_user_quota", {
+    p_user_id: userId,
+    p_storage_delta: Math.round(delta.storage),
+    p_file_delta: delta.files,
+  });
+  if (error) {
+    // The mutation itself already succeeded; log and let the recompute job fix the counters
+    console.error("Quota adjustment failed:", { userId, delta, message: error.message });
+  }
+}
+
+export interface QuotaBreakdown {
+  live: { bytes: number; files: number };
+  trash: { bytes: number; files: number };
+  versions: { bytes: number; count: number };
+}
+
+export async function getQuotaBreakdown(userId: string): Promise<QuotaBreakdown> {
+  const { data, error } = await supabase.rpc("quota_usage_breakdown", { p_user_id: userId }).maybeSingle();
+  if (error) throw error;
+  const row = (data ?? {}) as any;
+  return {
+    live: { bytes: Number(row.live_bytes ?? 0), files: Number(row.live_files ?? 0) },
+    trash: { bytes: Number(row.trash_bytes ?? 0), files: Number(row.trash_files ?? 0) },
+    versions: { bytes: Number(row.version_bytes ?? 0), count: Number(row.version_count ?? 0) },
+  };
+}
+
+// Rebuild storage_used / file_count for one user from `files` and `file_versions`
+export async function recomputeQuotaUsage(userId: string): Promise<void> {
+  const { error } = await supabase.rpc("recompute_user_quota", { p_user_id: userId });
+  if (error) throw error;
+}
+
+/**
+ * Every storage object a file row owns: its current object plus all stored
+ * versions (restore entries point at an existing object and are skipped).
+ * Returns the distinct paths and their combined size.
+ */
+export async function getFileStorageFootprint(file: { id: string; path?: string | null; size?: number | null }) {
+  const objects = new Map<string, number>();
+  if (file.path) objects.set(file.path, Number(file.size ?? 0));
+
+  const { data: versions, error } = await supabase
+    .from("file_versions")
+    .select("path, size, change_type")
+    .eq("file_id", file.id);
+  if (error) throw error;
+
+  for (const v of versions ?? []) {
+    if (!v.path || v.change_type === "restore" || objects.has(v.path)) continue;
+    objects.set(v.path, Number(v.size ?? 0));
+  }
+
+  let bytes = 0;
+  objects.forEach((size) => (bytes += size));
+  return { paths: Array.from(objects.keys()), bytes };
+}
@@ -0,0 +1,204 @@
+// src/utils/sessions.ts
+//
+// Device sessions. Signing in creates a row in user_sessions and returns a
+// short-lived access JWT (carrying the session id as `sid`) plus an opaque
+// refresh token. Every refresh rotates the refresh token; presenting one
+// that has already been rotated away means it leaked, so the whole session
+// is revoked. Revoking a session stops its access tokens at the next request
+// and disconnects its sockets (room `session:<id>`).
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import type { Request } from "express";
+import type { Server } from "socket.io";
+import { supabase } from "../lib/supabase";
+
+const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+// Two tabs refreshing at once both present the same token; the loser is told
+// to retry instead of being treated as a thief
+const REUSE_GRACE_MS = 10_000;
+
+export const SESSION_COLUMNS = "id, user_agent, ip, created_at, last_used_at, expires_at";
+
+export interface AccessTokenPayload {
+  userId: string;
+  email: string;
+  sid: string;
+  iat?: number;
+  exp?: number;
+}
+
+export interface IssuedTokens {
+  token: string; // access token, sent as `Authorization: Bearer`
+  refreshToken: string;
+  expiresIn: number; // access token lifetime in seconds
+  sessionId: string;
+}
+
+export class SessionError extends Error {
+  constructor(message: string, public status: number = 401) {
+    super(message);
+  }
+}
+
+function hashToken(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+function refreshExpiry(): string {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Refresh tokens are `<session id>.<secret>`; only the secret's hash is stored
+function newRefreshSecret() {
+  const secret = crypto.randomBytes(32).toString("base64url");
+  return { secret, hash: hashToken(secret) };
+}
+
+function signAccessToken(userId: string, email: string, sessionId: string) {
+  const token = jwt.sign({ userId, email, sid: sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+  return { token, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+}
+
+function clientInfo(req?: Request) {
+  return {
+    user_agent: req?.get("user-agent")?.slice(0, 500) ?? null,
+    ip: req?.ip ?? null,
+  };
+}
+
+/** Start a new device session for a user who just signed in. */
+export async function createSession(user: { id: string; email: string }, req?: Request): Promise<IssuedTokens> {
+  const { secret, hash } = newRefreshSecret();
+  const { data: session, error } = await supabase
+    .from("user_sessions")
+    .insert({ user_id: user.id, refresh_token_hash: hash, expires_at: refreshExpiry(), ...clientInfo(req) })
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  return { ...signAccessToken(user.id, user.email, session.id), refreshToken: `${session.id}.${secret}`, sessionId: session.id };
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token. Throws
+ * SessionError(401) for unknown, expired or revoked sessions; a token that
+ * was already rotated revokes the session, except within a few seconds of
+ * the rotation (409, retry with the newer token).
+ */
+export async function rotateSession(io: Server | undefined, refreshToken: string, req?: Request): Promise<IssuedTokens> {
+  const [sessionId, secret] = String(refreshToken).split(".");
+  if (!sessionId || !secret || !/^[0-9a-f-]{36}$/i.test(sessionId)) {
+    throw new SessionError("Invalid refresh token");
+  }
+  const presented = hashToken(secret);
+
+  const { data: session, error } = await supabase
+    .from("user_sessions")
+    .select("id, user_id, refresh_token_hash, previous_token_hash, rotated_at, expires_at, revoked_at, profiles ( email )")
+    .eq("id", sessionId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!session || session.revoked_at) throw new SessionError("Session has been signed out");
+  if (new Date(session.expires_at).getTime() <= Date.now()) throw new SessionError("Session expired");
+
+  if (session.refresh_token_hash !== presented) {
+    const recentlyRotated =
+      session.previous_token_hash === presented &&
+      session.rotated_at &&
+      Date.now() - new Date(session.rotated_at).getTime() < REUSE_GRACE_MS;
+    if (recentlyRotated) throw new SessionError("Refresh token was just rotated", 409);
+
+    await revokeSession(io, session.id, "refresh_token_reuse");
+    throw new SessionError("Refresh token reuse detected");
+  }
+
+  // Compare-and-swap on the current hash so concurrent refreshes cannot both win
+  const next = newRefreshSecret();
+  const now = new Date().toISOString();
+  const { data: rotated, error: rotateError } = await supabase
+    .from("user_sessions")
+    .update({
+      refresh_token_hash: next.hash,
+      previous_token_hash: presented,
+      rotated_at: now,
+      last_used_at: now,
+      expires_at: refreshExpiry(),
+      ...clientInfo(req),
+    })
+    .eq("id", session.id)
+    .eq("refresh_token_hash", presented)
+    .is("revoked_at", null)
+    .select("id")
+    .maybeSingle();
+  if (rotateError) throw rotateError;
+  if (!rotated) throw new SessionError("Refresh token was just rotated", 409);
+
+  const email = (session.profiles as any)?.email as string;
+  return { ...signAccessToken(session.user_id, email, session.id), refreshToken: `${session.id}.${next.secret}`, sessionId: session.id };
+}
+
+/** Verify an access token's signature and expiry. Returns null when invalid. */
+export function verifyAccessToken(token: string): AccessTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as Partial<AccessTokenPayload>;
+    if (!decoded.userId || !decoded.sid) return null;
+    return decoded as AccessTokenPayload;
+  } catch {
+    return null;
+  }
+}
+
+/** True when the session exists, belongs to the user and is neither revoked nor expired. */
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("user_sessions")
+    .select("id")
+    .eq("id", sessionId)
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
+
+function disconnectSessions(io: Server | undefined, sessionIds: string[], reason: string) {
+  if (!io) return;
+  for (const id of sessionIds) {
+    io.to(`session:${id}`).emit("session:revoked", { session_id: id, reason });
+    io.in(`session:${id}`).disconnectSockets(true);
+  }
+}
+
+/** Sign out one device. Returns false when the session was not active. */
+export async function revokeSession(io: Server | undefined, sessionId: string, reason = "logout", userId?: string): Promise<boolean> {
+  let update = supabase
+    .from("user_sessions")
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq("id", sessionId)
+    .is("revoked_at", null);
+  if (userId) update = update.eq("user_id", userId);
+
+  const { data, error } = await update.select("id");
+  if (error) throw error;
+  disconnectSessions(io, (data ?? []).map((s) => s.id), reason);
+  return (data ?? []).length > 0;
+}
+
+/** Sign out every device of a user, optionally keeping one session. Returns the number revoked. */
+export async function revokeAllSessions(io: Server | undefined, userId: string, reason = "logout_all", exceptSessionId?: string): Promise<number> {
+  let update = supabase
+    .from("user_sessions")
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq("user_id", userId)
+    .is("revoked_at", null);
+  if (exceptSessionId) update = update.neq("id", exceptSessionId);
+
+  const { data, error } = await update.select("id");
+  if (error) throw error;
+  const ids = (data ?? []).map((s) => s.id);
+  disconnectSessions(io, ids, reason);
+  return ids.length;
+}
@@ -0,0 +1,123 @@
+// src/utils/shares.ts
+//
+// Creating user shares. Used by POST /api/shares/:fileId/share and by
+// approved access requests, so both produce the same rows, invitations and
+// notifications.
+import type { Server } from "socket.io";
+import { supabase } from "../lib/supabase";
+import { emitToUsers, notifyUsers } from "./notifications";
+import { isValidEmail, sendShareInvite } from "./invites";
+
+export const SHARE_PERMISSIONS = ["view", "edit", "admin"] as const;
+export type SharePermission = (typeof SHARE_PERMISSIONS)[number];
+
+export class ShareError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+export interface CreateShareInput {
+  fileId: string;
+  actorId: string; // the owner, or an admin sharing on the owner's behalf
+  email: string;
+  permissions: string;
+  expiresAt?: string | null;
+}
+
+/**
+ * Share a file with an email address. Emails without a verified account get
+ * a pending share and an invite; it activates when the address is verified. The share
+ * always belongs to the file's owner. Throws ShareError for invalid input, a
+ * missing file (404) or an existing share (409).
+ */
+export async function createShare(io: Server | undefined, input: CreateShareInput) {
+  const { fileId, actorId, email, permissions } = input;
+
+  if (!email) throw new ShareError("Email is required");
+  if (!isValidEmail(email)) throw new ShareError("Invalid email address");
+  if (!(SHARE_PERMISSIONS as readonly string[]).includes(permissions)) {
+    throw new ShareError('Invalid permissions. Must be "view", "edit" or "admin"');
+  }
+
+  const { data: file, error: fileError } = await supabase.from("files").select("*").eq("id", fileId).single();
+  if (fileError || !file) throw new ShareError("File not found", 404);
+
+  // Check if target user exists (using profiles table); if not, invite them.
+  // Accounts that have not verified the address are treated the same way:
+  // the share activates when they verify it
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("id, email_verified_at")
+    .eq("email", email)
+    .maybeSingle();
+  const targetUser = profile?.email_verified_at ? profile : null;
+  const pending = !targetUser;
+
+  // Check if already shared
+  const { data: existingShare } = await supabase
+    .from("shares")
+    .select("id")
+    .eq("file_id", fileId)
+    .eq("shared_with_email", email)
+    .maybeSingle();
+  if (existingShare) throw new ShareError("File already shared with this user", 409);
+
+  // Insert share record (align with DB schema: owner_id)
+  const { data: share, error: shareError } = await supabase
+    .from("shares")
+    .insert([
+      {
+        file_id: fileId,
+        owner_id: file.user_id,
+        shared_with_email: email,
+        permissions,
+        expires_at: input.expiresAt ?? null,
+        status: pending ? "pending" : "active",
+      },
+    ])
+    .select()
+    .single();
+  if (shareError) throw shareError;
+
+  const emailSent = pending
+    ? await sendShareInvite({ email, ownerId: actorId, fileName: file.name, isFolder: !!file.is_folder, permissions })
+    : false;
+
+  // Notify owner and recipient in real-time; the recipient also gets a
+  // stored notification in case they are offline
+  const audience = targetUser ? [actorId, file.user_id, targetUser.id] : [actorId, file.user_id];
+  emitToUsers(io, audience, "share:created", {
+    id: share.id,
+    file_id: share.file_id,
+    file_name: file.name,
+    is_folder: !!file.is_folder,
+    shared_with_email: share.shared_with_email,
+    permissions: share.permissions,
+    status: share.status,
+    expires_at: share.expires_at,
+    created_at: share.created_at,
+  });
+  if (targetUser) {
+    await notifyUsers(io, [targetUser.id], {
+      type: "share_received",
+      actorId,
+      fileId,
+      data: { share_id: share.id, name: file.name, is_folder: !!file.is_folder, permissions: share.permissions },
+    });
+  }
+
+  return {
+    share: {
+      id: share.id,
+      file_id: share.file_id,
+      shared_with_email: share.shared_with_email,
+      permissions: share.permissions,
+      status: share.status,
+      expires_at: share.expires_at,
+      created_at: share.created_at,
+    },
+    pending,
+    emailSent,
+  };
+}
@@ -0,0 +1,122 @@
+// src/utils/tree.ts
+//
+// Folder hierarchy helpers. Folders are `files` rows with is_folder = true
+// and children point at them through parent_id.
+import { supabase } from "../lib/supabase";
+
+// Keep `.in()` filters well below URL length limits
+const IN_BATCH_SIZE = 200;
+
+export interface TreeNode {
+  id: string;
+  parent_id: string | null;
+  user_id: string;
+  name: string;
+  is_folder: boolean | null;
+  is_deleted: boolean | null;
+  deleted_at: string | null;
+  path: string | null;
+  size: number | null;
+}
+
+const TREE_NODE_COLUMNS = "id, parent_id, user_id, name, is_folder, is_deleted, deleted_at, path, size";
+
+export function chunk<T>(items: T[], size: number = IN_BATCH_SIZE): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+/**
+ * All descendants of `rootId` (not including the root), breadth first.
+ * Walks level by level so parents always precede their children. Pass
+ * `columns` to select more than the TreeNode fields (must include id,
+ * parent_id and is_folder).
+ */
+export async function getDescendants(rootId: string): Promise<TreeNode[]>;
+export async function getDescendants<T extends { id: string; is_folder: boolean | null }>(rootId: string, columns: string): Promise<T[]>;
+export async function getDescendants(rootId: string, columns: string = TREE_NODE_COLUMNS): Promise<any[]> {
+  const result: any[] = [];
+  const seen = new Set<string>([rootId]);
+  let frontier = [rootId];
+
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const batch of chunk(frontier)) {
+      const { data, error } = await supabase.from("files").select(columns).in("parent_id", batch);
+      if (error) throw error;
+      for (const node of (data ?? []) as any[]) {
+        if (seen.has(node.id)) continue; // corrupt data: never loop forever
+        seen.add(node.id);
+        result.push(node);
+        if (node.is_folder) next.push(node.id);
+      }
+    }
+    frontier = next;
+  }
+
+  return result;
+}
+
+// Whether `id` is a folder that is not in the trash, i.e. somewhere new items
+// may be created
+export async function isLiveFolder(id: string): Promise<boolean> {
+  const { data, error } = await supabase.from("files").select("is_folder, is_deleted").eq("id", id).maybeSingle();
+  if (error) throw error;
+  return !!data?.is_folder && !data.is_deleted;
+}
+
+/**
+ * True when `candidateId` is `ancestorId` itself or lies somewhere below it.
+ * Used to reject moving a folder into its own subtree.
+ */
+export async function isSelfOrDescendant(candidateId: string, ancestorId: string): Promise<boolean> {
+  const visited = new Set<string>();
+  let current: string | null = candidateId;
+
+  while (current) {
+    if (current === ancestorId) return true;
+    if (visited.has(current)) return false;
+    visited.add(current);
+
+    const { data, error }: { data: { parent_id: string | null } | null; error: any } = await supabase
+      .from("files")
+      .select("parent_id")
+      .eq("id", current)
+      .maybeSingle();
+    if (error) throw error;
+    current = data?.parent_id ?? null;
+  }
+
+  return false;
+}
+
+/**
+ * `fileId` followed by its parent, grandparent, ... up to the root. Stops
+ * early on a cycle or a missing row.
+ */
+export async function getAncestorIds(fileId: string): Promise<string[]> {
+  const chain: string[] = [];
+  let current: string | null = fileId;
+
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    const { data, error }: { data: { parent_id: string | null } | null; error: any } = await supabase
+      .from("files")
+      .select("parent_id")
+      .eq("id", current)
+      .maybeSingle();
+    if (error) throw error;
+    current = data?.parent_id ?? null;
+  }
+
+  return chain;
+}
+
+// Update a set of rows by id in URL-safe batches
+export async function updateFilesByIds(ids: string[], update: Record<string, any>): Promise<void> {
+  for (const batch of chunk(ids)) {
+    const { error } = await supabase.from("files").update(update).in("id", batch);
+    if (error) throw error;
+  }
+}
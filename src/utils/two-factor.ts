@@ -0,0 +1,219 @@
+// src/utils/two-factor.ts
+//
+// Optional TOTP two-factor authentication. The secret is stored encrypted
+// (AES-256-GCM, key from TOTP_ENCRYPTION_KEY or JWT_SECRET) and only becomes
+// active once the user has confirmed a first code. Recovery codes are
+// single use and stored as HMACs. A successful step is remembered so the
+// same code cannot be replayed within its validity window.
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import { supabase } from "../lib/supabase";
+import { generateTotpSecret, totpUri, verifyTotp } from "./totp";
+
+const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+const ENCRYPTION_KEY = crypto
+  .createHash("sha256")
+  .update(process.env.TOTP_ENCRYPTION_KEY || JWT_SECRET)
+  .digest();
+const ISSUER = process.env.TOTP_ISSUER || "CloudDrive";
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const RECOVERY_CODE_COUNT = 10;
+
+export class TwoFactorError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", ENCRYPTION_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((b) => b.toString("base64")).join(".");
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return crypto.createHmac("sha256", JWT_SECRET).update(normalized).digest("hex");
+}
+
+// xxxxx-xxxxx from an alphabet without look-alike characters
+function generateRecoveryCode(): string {
+  const alphabet = "abcdefghjkmnpqrstuvwxyz23456789";
+  const bytes = crypto.randomBytes(10);
+  const chars = Array.from(bytes, (b) => alphabet[b % alphabet.length]).join("");
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+export function isTwoFactorEnabled(user: { totp_enabled_at?: string | null }): boolean {
+  return !!user.totp_enabled_at;
+}
+
+/** Start (or restart) enrollment: a new pending secret and its otpauth URI. */
+export async function beginEnrollment(user: { id: string; email: string; totp_enabled_at?: string | null }) {
+  if (isTwoFactorEnabled(user)) throw new TwoFactorError("Two-factor authentication is already enabled", 409);
+
+  const secret = generateTotpSecret();
+  const { error } = await supabase
+    .from("profiles")
+    .update({ totp_pending_secret: encryptSecret(secret), updated_at: new Date().toISOString() })
+    .eq("id", user.id);
+  if (error) throw error;
+
+  return { secret, otpauthUri: totpUri(secret, user.email, ISSUER) };
+}
+
+/** Confirm enrollment with a first code. Returns the recovery codes (shown once). */
+export async function confirmEnrollment(userId: string, code: string): Promise<string[]> {
+  const { data: user, error } = await supabase
+    .from("profiles")
+    .select("id, totp_pending_secret, totp_enabled_at")
+    .eq("id", userId)
+    .single();
+  if (error) throw error;
+  if (user.totp_enabled_at) throw new TwoFactorError("Two-factor authentication is already enabled", 409);
+  if (!user.totp_pending_secret) throw new TwoFactorError("Start enrollment first");
+
+  const step = verifyTotp(decryptSecret(user.totp_pending_secret), code);
+  if (step === null) throw new TwoFactorError("Invalid code");
+
+  const { error: updateError } = await supabase
+    .from("profiles")
+    .update({
+      totp_secret: user.totp_pending_secret,
+      totp_pending_secret: null,
+      totp_enabled_at: new Date().toISOString(),
+      totp_last_step: step,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", userId);
+  if (updateError) throw updateError;
+
+  return replaceRecoveryCodes(userId);
+}
+
+/** Turn 2FA off and forget the secret and recovery codes. */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from("profiles")
+    .update({
+      totp_secret: null,
+      totp_pending_secret: null,
+      totp_enabled_at: null,
+      totp_last_step: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", userId);
+  if (error) throw error;
+
+  const { error: codesError } = await supabase.from("recovery_codes").delete().eq("user_id", userId);
+  if (codesError) throw codesError;
+}
+
+/** Issue a fresh set of recovery codes, invalidating the previous set. */
+export async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const { error: deleteError } = await supabase.from("recovery_codes").delete().eq("user_id", userId);
+  if (deleteError) throw deleteError;
+
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  const { error } = await supabase
+    .from("recovery_codes")
+    .insert(codes.map((code) => ({ user_id: userId, code_hash: hashRecoveryCode(code) })));
+  if (error) throw error;
+  return codes;
+}
+
+export async function countRecoveryCodes(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from("recovery_codes")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("used_at", null);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/**
+ * Check a second factor: a TOTP code, or a recovery code (used up on
+ * success). A TOTP step is accepted once; the compare-and-swap on
+ * totp_last_step keeps two concurrent logins from both using it.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  input: { code?: string; recoveryCode?: string }
+): Promise<"totp" | "recovery" | null> {
+  if (input.recoveryCode) {
+    const { data, error } = await supabase
+      .from("recovery_codes")
+      .update({ used_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("code_hash", hashRecoveryCode(String(input.recoveryCode)))
+      .is("used_at", null)
+      .select("id")
+      .maybeSingle();
+    if (error) throw error;
+    return data ? "recovery" : null;
+  }
+  if (!input.code) return null;
+
+  const { data: user, error } = await supabase
+    .from("profiles")
+    .select("totp_secret, totp_last_step")
+    .eq("id", userId)
+    .single();
+  if (error) throw error;
+  if (!user.totp_secret) return null;
+
+  const step = verifyTotp(decryptSecret(user.totp_secret), String(input.code));
+  if (step === null || (user.totp_last_step !== null && step <= Number(user.totp_last_step))) return null;
+
+  let update = supabase.from("profiles").update({ totp_last_step: step }).eq("id", userId);
+  update = user.totp_last_step === null ? update.is("totp_last_step", null) : update.eq("totp_last_step", user.totp_last_step);
+  const { data: claimed, error: claimError } = await update.select("id").maybeSingle();
+  if (claimError) throw claimError;
+  return claimed ? "totp" : null;
+}
+
+/**
+ * Re-authentication for sensitive 2FA changes: the account password (when
+ * it has one) and a current second factor.
+ */
+export async function reauthenticate(
+  user: { id: string; password_hash?: string | null },
+  input: { password?: string; code?: string; recoveryCode?: string }
+): Promise<void> {
+  if (user.password_hash) {
+    if (!input.password || !(await bcrypt.compare(String(input.password), user.password_hash))) {
+      throw new TwoFactorError("Password is incorrect", 401);
+    }
+  }
+  if (!(await verifySecondFactor(user.id, input))) {
+    throw new TwoFactorError("Invalid two-factor code", 401);
+  }
+}
+
+// Proof that the password step of a login succeeded, exchanged at
+// POST /api/auth/login/2fa together with a code
+export function issueLoginChallenge(userId: string): { challengeToken: string; expiresIn: number } {
+  const challengeToken = jwt.sign({ userId, purpose: "2fa-challenge" }, JWT_SECRET, {
+    expiresIn: CHALLENGE_TTL_SECONDS,
+  });
+  return { challengeToken, expiresIn: CHALLENGE_TTL_SECONDS };
+}
+
+export function verifyLoginChallenge(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId?: string; purpose?: string };
+    return decoded.purpose === "2fa-challenge" && decoded.userId ? decoded.userId : null;
+  } catch {
+    return null;
+  }
+}
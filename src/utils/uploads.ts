@@ -0,0 +1,69 @@
+// src/utils/uploads.ts
+import type { Server } from "socket.io";
+import { supabase } from "../lib/supabase";
+import { adjustQuotaUsage } from "./quota";
+import { getFileExt } from "./helpers";
+import { scheduleFileProcessing } from "../jobs/file-processing";
+
+// Storage object name for a fresh upload: <timestamp>-<random>[.ext]
+export function generateStorageFileName(originalName: string): string {
+  const fileExt = getFileExt(originalName) || undefined;
+  return `${Date.now()}-${Math.random().toString(36).substring(2)}${fileExt ? "." + fileExt : ""}`;
+}
+
+export interface UploadedFileInput {
+  userId: string;
+  originalName: string;
+  size: number;
+  mimeType: string;
+  path: string;
+  parentId?: string | null;
+}
+
+/**
+ * Insert the `files` row for an object already written to storage, charge it
+ * to the owner's quota and notify the owner's socket room. Shared by direct
+ * and resumable uploads.
+ */
+export async function recordUploadedFile(io: Server | undefined, input: UploadedFileInput) {
+  const { userId, originalName, size, mimeType, path, parentId } = input;
+
+  // Save file metadata to database (align with DB schema)
+  const { data: fileData, error: dbError } = await supabase
+    .from("files")
+    .insert([
+      {
+        user_id: userId,
+        name: originalName, // display name
+        original_name: originalName,
+        size,
+        type: mimeType,
+        mime_type: mimeType,
+        extension: getFileExt(originalName) || undefined,
+        path,
+        parent_id: parentId || null,
+        // storage_bucket defaults to 'files'
+      },
+    ])
+    .select()
+    .single();
+
+  if (dbError) throw dbError;
+
+  await adjustQuotaUsage(userId, { storage: size, files: 1 });
+
+  // Emit real-time event to the user's room
+  io?.to(`user:${userId}`).emit("file:created", {
+    id: fileData.id,
+    name: fileData.name,
+    size: fileData.size,
+    type: fileData.type,
+    path: fileData.path,
+    created_at: fileData.created_at,
+  });
+
+  // Thumbnails and search indexing run in the background
+  scheduleFileProcessing(fileData);
+
+  return fileData;
+}
@@ -0,0 +1,120 @@
+// src/utils/zip.ts
+//
+// Streams folders / multi-selections as a ZIP archive. Objects are fetched
+// from storage one at a time and piped straight into the response, so memory
+// use stays flat regardless of archive size.
+import archiver from "archiver";
+import type { Response } from "express";
+import { once } from "events";
+import { supabase } from "../lib/supabase";
+import { storage } from "../lib/storage";
+import { getDescendants } from "./tree";
+
+export interface ZipEntry {
+  // Path inside the archive; directories end with "/"
+  name: string;
+  // Storage key for files, null for directory entries
+  storagePath: string | null;
+}
+
+// Make names unique within one archive directory: "a.txt", "a (1).txt", ...
+function uniqueName(taken: Set<string>, dir: string, name: string): string {
+  const safe = name.replace(/[\\/]/g, "_") || "untitled";
+  const dot = safe.lastIndexOf(".");
+  const base = dot > 0 ? safe.slice(0, dot) : safe;
+  const ext = dot > 0 ? safe.slice(dot) : "";
+
+  let candidate = safe;
+  for (let i = 1; taken.has(dir + candidate.toLowerCase()); i++) {
+    candidate = `${base} (${i})${ext}`;
+  }
+  taken.add(dir + candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Build archive entries for the given top-level rows, expanding folders
+ * through parent_id so the hierarchy is preserved. Trashed items are skipped.
+ */
+export async function collectZipEntries(roots: any[]): Promise<ZipEntry[]> {
+  const entries: ZipEntry[] = [];
+  const taken = new Set<string>();
+
+  for (const root of roots) {
+    if (root.is_deleted) continue;
+    const rootName = uniqueName(taken, "", root.name);
+
+    if (!root.is_folder) {
+      entries.push({ name: rootName, storagePath: root.path });
+      continue;
+    }
+
+    entries.push({ name: `${rootName}/`, storagePath: null });
+    const dirOf = new Map<string, string>([[root.id, `${rootName}/`]]);
+
+    for (const node of await getDescendants(root.id)) {
+      const dir = dirOf.get(node.parent_id as string);
+      if (!dir || node.is_deleted) continue; // inside a trashed folder
+      const name = uniqueName(taken, dir, node.name);
+
+      if (node.is_folder) {
+        dirOf.set(node.id, `${dir}${name}/`);
+        entries.push({ name: `${dir}${name}/`, storagePath: null });
+      } else {
+        entries.push({ name: `${dir}${name}`, storagePath: node.path });
+      }
+    }
+  }
+
+  return entries;
+}
+
+// Load rows for the ids in the given order (missing ids are dropped)
+export async function loadZipRoots(fileIds: string[]): Promise<any[]> {
+  const { data, error } = await supabase
+    .from("files")
+    .select("id, name, path, is_folder, is_deleted")
+    .in("id", fileIds);
+  if (error) throw error;
+  const byId = new Map((data ?? []).map((row: any) => [row.id, row]));
+  return fileIds.map((id) => byId.get(id)).filter(Boolean);
+}
+
+/**
+ * Pipe a ZIP of `entries` to the response. Headers are sent immediately, so
+ * failures after this point can only abort the stream.
+ */
+export async function streamZip(res: Response, archiveName: string, entries: ZipEntry[]): Promise<void> {
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  const aborted = new AbortController();
+
+  res.setHeader("Content-Type", "application/zip");
+  res.attachment(archiveName.endsWith(".zip") ? archiveName : `${archiveName}.zip`);
+
+  res.on("close", () => {
+    if (!res.writableFinished) {
+      aborted.abort();
+      archive.abort();
+    }
+  });
+  archive.on("warning", (err) => console.warn("ZIP warning:", err));
+  archive.on("error", (err) => {
+    console.error("ZIP stream error:", err);
+    res.destroy(err);
+  });
+
+  archive.pipe(res);
+
+  for (const entry of entries) {
+    if (aborted.signal.aborted) return;
+    if (entry.storagePath) {
+      archive.append(await storage.getStream(entry.storagePath), { name: entry.name });
+    } else {
+      archive.append("", { name: entry.name });
+    }
+    // Wait until this entry is fully written before opening the next object
+    await once(archive, "entry", { signal: aborted.signal });
+  }
+
+  await archive.finalize();
+}
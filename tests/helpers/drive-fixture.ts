@@ -0,0 +1,63 @@
+// tests/helpers/drive-fixture.ts
+//
+// A small drive for permission tests:
+//
+//   projects/            owned by owner; shared with folder-editor (edit)
+//     reports/           shared with sub-viewer (view)
+//       q3.pdf           shared with admin/editor/viewer, plus a pending
+//                        invite and an expired share
+import type { Tables } from "./fake-supabase";
+
+export const USERS = {
+  owner: "u-owner",
+  admin: "u-admin",
+  editor: "u-editor",
+  viewer: "u-viewer",
+  folderEditor: "u-folder-editor",
+  subViewer: "u-sub-viewer",
+  invited: "u-invited",
+  expired: "u-expired",
+  stranger: "u-stranger",
+} as const;
+
+export const FILES = {
+  projects: "f-projects",
+  reports: "f-reports",
+  q3: "f-q3",
+  missing: "f-missing",
+} as const;
+
+const email = (id: string) => `${id}@example.com`;
+
+function share(fileId: string, userId: string, permissions: string, extra: Record<string, unknown> = {}) {
+  return {
+    id: `s-${fileId}-${userId}`,
+    file_id: fileId,
+    owner_id: USERS.owner,
+    shared_with_email: email(userId),
+    permissions,
+    status: "active",
+    expires_at: null,
+    ...extra,
+  };
+}
+
+export function driveFixture(): Tables {
+  return {
+    profiles: Object.values(USERS).map((id) => ({ id, email: email(id) })),
+    files: [
+      { id: FILES.projects, user_id: USERS.owner, parent_id: null, is_folder: true },
+      { id: FILES.reports, user_id: USERS.owner, parent_id: FILES.projects, is_folder: true },
+      { id: FILES.q3, user_id: USERS.owner, parent_id: FILES.reports, is_folder: false },
+    ],
+    shares: [
+      share(FILES.q3, USERS.admin, "admin"),
+      share(FILES.q3, USERS.editor, "edit"),
+      share(FILES.q3, USERS.viewer, "view"),
+      share(FILES.q3, USERS.invited, "admin", { status: "pending" }),
+      share(FILES.q3, USERS.expired, "admin", { expires_at: new Date(Date.now() - 60_000).toISOString() }),
+      share(FILES.projects, USERS.folderEditor, "edit"),
+      share(FILES.reports, USERS.subViewer, "view"),
+    ],
+  };
+}
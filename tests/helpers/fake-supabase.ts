@@ -0,0 +1,90 @@
+// tests/helpers/fake-supabase.ts
+//
+// In-memory stand-in for the supabase client, covering the query builder
+// calls the permission code makes: from().select() with eq/neq/in/or
+// filters, ending in maybeSingle(), single() or a plain await.
+type Row = Record<string, any>;
+
+export type Tables = Record<string, Row[]>;
+
+type Filter = (row: Row) => boolean;
+
+// Supports the `col.is.null` and `col.gt.<value>` conditions used by
+// activeShareFilter(), comma-separated and OR-ed together
+function parseOr(expression: string): Filter {
+  const conditions = expression.split(",").map((part) => {
+    const [column, op, ...rest] = part.split(".");
+    const value = rest.join(".");
+    if (op === "is" && value === "null") return (row: Row) => row[column] == null;
+    if (op === "gt") return (row: Row) => row[column] != null && String(row[column]) > value;
+    throw new Error(`fake-supabase: unsupported or() condition "${part}"`);
+  });
+  return (row) => conditions.some((matches) => matches(row));
+}
+
+class Query implements PromiseLike<{ data: any; error: null }> {
+  private filters: Filter[] = [];
+
+  constructor(private rows: Row[]) {}
+
+  select(_columns?: string) {
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  or(expression: string) {
+    this.filters.push(parseOr(expression));
+    return this;
+  }
+
+  private matches(): Row[] {
+    return this.rows.filter((row) => this.filters.every((matches) => matches(row)));
+  }
+
+  async maybeSingle() {
+    const [row] = this.matches();
+    return { data: row ?? null, error: null };
+  }
+
+  async single() {
+    const [row] = this.matches();
+    return row ? { data: row, error: null } : { data: null, error: { message: "No rows found" } };
+  }
+
+  then<T1 = { data: any; error: null }, T2 = never>(
+    onfulfilled?: ((value: { data: any; error: null }) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve({ data: this.matches(), error: null }).then(onfulfilled, onrejected);
+  }
+}
+
+function createFakeSupabase() {
+  let tables: Tables = {};
+  return {
+    client: {
+      from: (table: string) => new Query(tables[table] ?? []),
+    },
+    seed(next: Tables) {
+      tables = next;
+    },
+  };
+}
+
+// One shared instance: tests mock ../src/lib/supabase with `fakeSupabase.client`
+// and seed the tables they need
+export const fakeSupabase = createFakeSupabase();
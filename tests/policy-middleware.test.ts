@@ -0,0 +1,144 @@
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeSupabase } from "./helpers/fake-supabase";
+import { FILES, USERS, driveFixture } from "./helpers/drive-fixture";
+import { requireFileAccess } from "../src/middlewares/policy-middleware";
+
+vi.mock("../src/lib/supabase", async () => ({
+  supabase: (await import("./helpers/fake-supabase")).fakeSupabase.client,
+}));
+
+function mockResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+async function run(
+  guard: ReturnType<typeof requireFileAccess>,
+  req: { userId: string; params?: Record<string, string>; body?: Record<string, unknown> }
+) {
+  const request = { params: {}, body: {}, ...req } as unknown as Request;
+  const res = mockResponse();
+  const next = vi.fn();
+  await guard(request, res as unknown as Response, next);
+  return { req: request, res, next };
+}
+
+describe("requireFileAccess", () => {
+  beforeEach(() => fakeSupabase.seed(driveFixture()));
+
+  it("lets an allowed role through and exposes the resolved access", async () => {
+    const { req, res, next } = await run(requireFileAccess("write"), { userId: USERS.editor, params: { id: FILES.q3 } });
+    expect(next).toHaveBeenCalledWith();
+    expect(res.body).toBeUndefined();
+    expect(req.fileAccess).toEqual({ fileId: FILES.q3, ownerId: USERS.owner, role: "edit", allowed: true });
+  });
+
+  it("answers 403 when the caller has a role that is too narrow", async () => {
+    const { res, next } = await run(requireFileAccess("share"), { userId: USERS.viewer, params: { id: FILES.q3 } });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toEqual({ error: "Insufficient permissions" });
+  });
+
+  it("answers 403 for an admin attempting an owner-only action", async () => {
+    const { res } = await run(requireFileAccess("manage"), { userId: USERS.admin, params: { id: FILES.q3 } });
+    expect(res.statusCode).toBe(403);
+  });
+
+  it("answers 404 when the caller has no access, hiding that the file exists", async () => {
+    const { res, next } = await run(requireFileAccess("read"), { userId: USERS.stranger, params: { id: FILES.q3 } });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(404);
+    expect(res.body).toEqual({ error: "File not found" });
+  });
+
+  it("answers the same 404 for a file that does not exist", async () => {
+    const { res } = await run(requireFileAccess("read"), { userId: USERS.owner, params: { id: FILES.missing } });
+    expect(res.statusCode).toBe(404);
+    expect(res.body).toEqual({ error: "File not found" });
+  });
+
+  it("answers 404 for pending invitations", async () => {
+    const { res } = await run(requireFileAccess("read"), { userId: USERS.invited, params: { id: FILES.q3 } });
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("uses the custom not-found message", async () => {
+    const guard = requireFileAccess("write", { body: "parentId", notFound: "Parent folder not found" });
+    const { res } = await run(guard, { userId: USERS.stranger, body: { parentId: FILES.reports } });
+    expect(res.statusCode).toBe(404);
+    expect(res.body).toEqual({ error: "Parent folder not found" });
+  });
+
+  it("checks access inherited from an ancestor folder share", async () => {
+    const write = await run(requireFileAccess("write"), { userId: USERS.folderEditor, params: { id: FILES.q3 } });
+    expect(write.next).toHaveBeenCalledWith();
+    expect(write.req.fileAccess?.role).toBe("edit");
+
+    const del = await run(requireFileAccess("delete"), { userId: USERS.folderEditor, params: { id: FILES.q3 } });
+    expect(del.res.statusCode).toBe(403);
+  });
+
+  it("reads the id from another route parameter or a body field", async () => {
+    const byParam = await run(requireFileAccess("read", { param: "fileId" }), {
+      userId: USERS.subViewer,
+      params: { fileId: FILES.q3 },
+    });
+    expect(byParam.next).toHaveBeenCalledWith();
+
+    const byBody = await run(requireFileAccess("write", { body: "parentId" }), {
+      userId: USERS.folderEditor,
+      body: { parentId: FILES.reports },
+    });
+    expect(byBody.next).toHaveBeenCalledWith();
+  });
+
+  it("picks the action per request when given a function", async () => {
+    const guard = requireFileAccess((req) => (req.body?.parentId === null ? "manage" : "delete"));
+    const toRoot = await run(guard, { userId: USERS.admin, params: { id: FILES.q3 }, body: { parentId: null } });
+    expect(toRoot.res.statusCode).toBe(403);
+
+    const toFolder = await run(guard, { userId: USERS.admin, params: { id: FILES.q3 }, body: { parentId: FILES.reports } });
+    expect(toFolder.next).toHaveBeenCalledWith();
+  });
+
+  it("with folder: true, refuses a file or a trashed folder as the target", async () => {
+    const guard = requireFileAccess("write", { body: "parentId", folder: true, notFound: "Folder not found" });
+
+    const intoFolder = await run(guard, { userId: USERS.editor, body: { parentId: FILES.q3 } });
+    expect(intoFolder.next).not.toHaveBeenCalled();
+    expect(intoFolder.res.statusCode).toBe(404);
+    expect(intoFolder.res.body).toEqual({ error: "Folder not found" });
+
+    const tables = driveFixture();
+    tables.files = tables.files.map((f) => (f.id === FILES.reports ? { ...f, is_deleted: true } : f));
+    fakeSupabase.seed(tables);
+    const intoTrash = await run(guard, { userId: USERS.owner, body: { parentId: FILES.reports } });
+    expect(intoTrash.res.statusCode).toBe(404);
+
+    const intoLive = await run(guard, { userId: USERS.owner, body: { parentId: FILES.projects } });
+    expect(intoLive.next).toHaveBeenCalledWith();
+  });
+
+  it("requires an id unless it is optional", async () => {
+    const required = await run(requireFileAccess("write", { body: "parentId" }), { userId: USERS.owner });
+    expect(required.res.statusCode).toBe(400);
+    expect(required.res.body).toEqual({ error: "File id is required" });
+
+    const optional = await run(requireFileAccess("write", { body: "parentId", optional: true }), { userId: USERS.owner });
+    expect(optional.next).toHaveBeenCalledWith();
+    expect(optional.req.fileAccess).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeSupabase } from "./helpers/fake-supabase";
+import { FILES, USERS, driveFixture } from "./helpers/drive-fixture";
+import { FileAction, FileRole, FILE_POLICY, authorizeFile, can, canViaPublicLink } from "../src/utils/policy";
+
+vi.mock("../src/lib/supabase", async () => ({
+  supabase: (await import("./helpers/fake-supabase")).fakeSupabase.client,
+}));
+
+const ACTIONS: FileAction[] = ["read", "download", "write", "version", "share", "delete", "manage"];
+
+// The expected matrix, spelled out rather than derived from FILE_POLICY
+const EXPECTED: Record<FileRole, Record<FileAction, boolean>> = {
+  owner: { read: true, download: true, write: true, version: true, share: true, delete: true, manage: true },
+  admin: { read: true, download: true, write: true, version: true, share: true, delete: true, manage: false },
+  edit: { read: true, download: true, write: true, version: true, share: false, delete: false, manage: false },
+  view: { read: true, download: true, write: false, version: false, share: false, delete: false, manage: false },
+  "public-link": { read: true, download: true, write: false, version: false, share: false, delete: false, manage: false },
+};
+
+const matrix = (Object.keys(EXPECTED) as FileRole[]).flatMap((role) =>
+  ACTIONS.map((action) => ({ role, action, allowed: EXPECTED[role][action] }))
+);
+
+describe("FILE_POLICY", () => {
+  it("covers exactly the known roles", () => {
+    expect(Object.keys(FILE_POLICY).sort()).toEqual(Object.keys(EXPECTED).sort());
+  });
+
+  it.each(matrix)("$role may $action: $allowed", ({ role, action, allowed }) => {
+    expect(can(role, action)).toBe(allowed);
+  });
+
+  it.each(ACTIONS)("no role may %s", (action) => {
+    expect(can(null, action)).toBe(false);
+    expect(can(undefined, action)).toBe(false);
+  });
+});
+
+describe("canViaPublicLink", () => {
+  it.each(ACTIONS)("a downloadable link allows %s as the public-link role", (action) => {
+    expect(canViaPublicLink({ allow_download: true }, action)).toBe(EXPECTED["public-link"][action]);
+    expect(canViaPublicLink({}, action)).toBe(EXPECTED["public-link"][action]);
+  });
+
+  it.each(ACTIONS)("a preview-only link (allow_download=false) allows %s only for read", (action) => {
+    expect(canViaPublicLink({ allow_download: false }, action)).toBe(action === "read");
+  });
+});
+
+describe("authorizeFile", () => {
+  beforeEach(() => fakeSupabase.seed(driveFixture()));
+
+  const SHARED_ROLES: { user: string; role: FileRole }[] = [
+    { user: USERS.owner, role: "owner" },
+    { user: USERS.admin, role: "admin" },
+    { user: USERS.editor, role: "edit" },
+    { user: USERS.viewer, role: "view" },
+  ];
+
+  const resolved = SHARED_ROLES.flatMap(({ user, role }) =>
+    ACTIONS.map((action) => ({ user, role, action, allowed: EXPECTED[role][action] }))
+  );
+
+  it.each(resolved)("$role ($user) may $action: $allowed", async ({ user, role, action, allowed }) => {
+    const access = await authorizeFile(user, FILES.q3, action);
+    expect(access).toEqual({ fileId: FILES.q3, ownerId: USERS.owner, role, allowed });
+  });
+
+  it("inherits a share on an ancestor folder", async () => {
+    const access = await authorizeFile(USERS.folderEditor, FILES.q3, "version");
+    expect(access.role).toBe("edit");
+    expect(access.allowed).toBe(true);
+    expect((await authorizeFile(USERS.folderEditor, FILES.q3, "share")).allowed).toBe(false);
+  });
+
+  it("uses the most permissive share along the chain", async () => {
+    // view on reports/, but edit on projects/ above it
+    fakeSupabase.seed({
+      ...driveFixture(),
+      shares: [
+        ...driveFixture().shares,
+        {
+          file_id: FILES.projects,
+          shared_with_email: `${USERS.subViewer}@example.com`,
+          permissions: "edit",
+          status: "active",
+          expires_at: null,
+        },
+      ],
+    });
+    const access = await authorizeFile(USERS.subViewer, FILES.q3, "write");
+    expect(access.role).toBe("edit");
+    expect(access.allowed).toBe(true);
+  });
+
+  it("does not let a share below the file grant access to it", async () => {
+    const access = await authorizeFile(USERS.subViewer, FILES.projects, "read");
+    expect(access).toEqual({ fileId: FILES.projects, ownerId: USERS.owner, role: null, allowed: false });
+  });
+
+  it("ignores pending invitations and expired shares", async () => {
+    for (const user of [USERS.invited, USERS.expired]) {
+      const access = await authorizeFile(user, FILES.q3, "read");
+      expect(access.role).toBeNull();
+      expect(access.allowed).toBe(false);
+    }
+  });
+
+  it("reports no owner for a missing file", async () => {
+    const access = await authorizeFile(USERS.owner, FILES.missing, "read");
+    expect(access).toEqual({ fileId: FILES.missing, ownerId: null, role: null, allowed: false });
+  });
+});